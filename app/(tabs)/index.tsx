@@ -12,15 +12,88 @@ import {
     View,
 } from 'react-native';
 import { SafeAreaView, useSafeAreaInsets } from 'react-native-safe-area-context';
+import { useFocusEffect } from '@react-navigation/native';
 
+import { DailyStrip } from '@/components/daily-strip';
+import { GoalStatus } from '@/components/goal-status';
+import { MultiplayerQuiz } from '@/components/multiplayer-quiz';
+import { PairsQuiz } from '@/components/pairs-quiz';
+import { ReviewQuiz } from '@/components/review-quiz';
 import { ThemedText } from '@/components/themed-text';
 import { ThemedView } from '@/components/themed-view';
 import { CATEGORIES, THEMES, type ThemeMeta } from '@/datasets/themes';
 import { useThemeColor } from '@/hooks/use-theme-color';
-import { gradeAnswers, type GradeResult } from '@/src/lib/grading';
+import { buildChoiceRound, buildDistractorPool } from '@/src/lib/choices';
+import { getCountryEnglishNames } from '@/src/lib/countries';
+import { DAILY_TARGET, dailyChallengeFor, localDateKey, seededRandom, type DailyChallenge } from '@/src/lib/daily';
+import { goalProgress, loadGoalSettings, studyStreak, subscribeGoalSettings, type GoalProgress } from '@/src/lib/goals';
+import {
+    buildAnswerIndex,
+    gradeAnswers,
+    gradeIncremental,
+    normalizeInput,
+    type GradeOptions,
+    type GradeResult,
+    type GradeTraceEntry,
+    type IncrementalGrade,
+    type MatchKind,
+} from '@/src/lib/grading';
+import { applyHintCost, HINT_COST, hintsFor, nextHint, type HintState } from '@/src/lib/hints';
+import { recordMatch, type MatchPlayer } from '@/src/lib/multiplayer';
 import { normalizeAnswer } from '@/src/lib/normalize';
-import { recordPlay } from '@/src/lib/records';
-import { router } from 'expo-router';
+import { pairsAsList, type PairCardResult } from '@/src/lib/pairs';
+import {
+    DEFAULT_TIMED_SECONDS,
+    quizModeLabel,
+    quizModesFor,
+    TIMED_SECONDS_OPTIONS,
+    timedPoints,
+    type QuizMode,
+    type TimedSeconds,
+} from '@/src/lib/quiz-mode';
+import { loadPlayLog, loadStats, recordPlay, subscribeRecords, type DailyResult, type PlayLogEntry } from '@/src/lib/records';
+import { refreshGoalReminders } from '@/src/lib/reminders';
+import {
+    dueReviewCards,
+    loadReviewStore,
+    recordReviewOutcomes,
+    REVIEW_SESSION_SIZE,
+    type ReviewAnswerResult,
+    type ReviewCard,
+    type ReviewOutcome,
+    type ReviewStoreV1,
+} from '@/src/lib/review';
+import { clearSession, loadSession, saveSession, type QuizSessionV1 } from '@/src/lib/session';
+import {
+    defaultTargetFor,
+    resolveTargetCount,
+    targetKey,
+    targetLabel,
+    targetOptionsFor,
+    type TargetCount,
+} from '@/src/lib/target';
+import {
+    DEFAULT_DRAW_STRATEGY,
+    DRAW_STRATEGIES,
+    drawStrategyLabel,
+    pickTheme,
+    RECENT_THEMES_TO_AVOID,
+    type DrawStrategy,
+} from '@/src/lib/theme-picker';
+import { formatDuration } from '@/src/lib/time';
+import { router, useLocalSearchParams } from 'expo-router';
+
+// 送信後のチップの枠色（正解=緑 / 惜しい=橙 / 不正解=赤）
+function chipToneColor(kind: MatchKind): string {
+  if (kind === 'none') return '#e74c3c';
+  if (kind === 'fuzzy') return '#f39c12';
+  return '#2ecc71';
+}
+
+// 再開中のセッションがこのテーマのものなら返す
+function restoringFor(session: QuizSessionV1 | null, themeId: string): QuizSessionV1 | null {
+  return session?.themeId === themeId ? session : null;
+}
 
 export default function HomeScreen() {
   const tint = useThemeColor({}, 'tint');
@@ -42,9 +115,185 @@ export default function HomeScreen() {
 
   const [selectedCategoryId, setSelectedCategoryId] = useState<string>(CATEGORIES[0]?.id ?? 'geography');
   const [activeTheme, setActiveTheme] = useState<ThemeMeta>(THEMES[0]);
-  const lastThemeIdRef = useRef<string>(THEMES[0]?.id ?? '');
+  // 最近出したテーマ（新しい順）。出題で続けて同じテーマを引かないように使う
+  const recentThemeIdsRef = useRef<string[]>(THEMES[0] ? [THEMES[0].id] : []);
+  const [drawStrategy, setDrawStrategy] = useState<DrawStrategy>(DEFAULT_DRAW_STRATEGY);
+
+  // 再開中のセッション。テーマが変わったときの既定値より、保存していた目標数・候補などを優先する（resetPlay で解除）
+  const restoringRef = useRef<QuizSessionV1 | null>(null);
+
+  const theme = activeTheme.dataset;
+  const pairsDataset = theme.kind === 'pairs' ? theme : null;
+  // pairs テーマもカード枚数（目標数）などの計算は list と共通にする
+  const dataset = useMemo(() => (theme.kind === 'pairs' ? pairsAsList(theme) : theme), [theme]);
+  const profile = dataset.normalizeProfile;
+
+  // 英語名での回答（entityIds を持つテーマのみ）。テーマが変わったらテーマの既定値に戻す
+  const canAcceptEnglish = Object.keys(dataset.entityIds).length > 0;
+  const [acceptEnglish, setAcceptEnglish] = useState<boolean>(dataset.acceptEnglish ?? false);
+  useEffect(() => {
+    setAcceptEnglish(restoringFor(restoringRef.current, dataset.id)?.acceptEnglish ?? dataset.acceptEnglish ?? false);
+  }, [dataset]);
+
+  const gradeOptions = useMemo<GradeOptions>(
+    () => ({
+      aliases: dataset.aliases,
+      readings: dataset.readings,
+      entityIds: dataset.entityIds,
+      entityNames: canAcceptEnglish && acceptEnglish ? getCountryEnglishNames() : undefined,
+      nearMissPolicy: dataset.nearMissPolicy,
+      profile,
+    }),
+    [dataset, canAcceptEnglish, acceptEnglish, profile]
+  );
+
+  // 目標数（5/10/20/全部）。テーマが変わったらテーマの既定値に戻す
+  const [target, setTarget] = useState<TargetCount>(() => defaultTargetFor(dataset));
+  useEffect(() => {
+    setTarget(restoringFor(restoringRef.current, dataset.id)?.target ?? defaultTargetFor(dataset));
+  }, [dataset]);
+  const targetOptions = useMemo(() => targetOptionsFor(dataset.answers.length), [dataset]);
+
+  // デイリー（今日のお題）: 日付から決まる全員共通の出題。「出題」で別のテーマにしたら解除
+  const [daily, setDaily] = useState<DailyChallenge | null>(null);
+  const [dailyResults, setDailyResults] = useState<Record<string, DailyResult>>({});
+  // 記録が保存されるたびに読み直す（デイリー以外の画面や取り込みで変わっても帯が合う）
+  const refreshDailyResults = useCallback(() => {
+    void (async () => {
+      setDailyResults((await loadStats()).dailyResults);
+    })();
+  }, []);
+  useEffect(() => {
+    refreshDailyResults();
+    return subscribeRecords(refreshDailyResults);
+  }, [refreshDailyResults]);
+
+  // 今日の目標と連続学習日数（記録や目標が保存されるたび、と日付が変わったときのためにタブに戻るたびに読み直す）
+  const [goalStatus, setGoalStatus] = useState<{ progress: GoalProgress; streak: number } | null>(null);
+  const refreshGoal = useCallback(() => {
+    void (async () => {
+      const [settings, log] = await Promise.all([loadGoalSettings(), loadPlayLog()]);
+      const today = localDateKey();
+      setGoalStatus({ progress: goalProgress(log, settings.goal, today), streak: studyStreak(log, today) });
+    })();
+  }, []);
+  useFocusEffect(refreshGoal);
+  useEffect(() => {
+    const unsubscribes = [subscribeRecords(refreshGoal), subscribeGoalSettings(refreshGoal)];
+    return () => unsubscribes.forEach((unsubscribe) => unsubscribe());
+  }, [refreshGoal]);
+  useEffect(() => {
+    void refreshGoalReminders();
+  }, []);
+
+  // 記録を保存できなかったとき（新しい版のアプリの記録がある / 端末の保存に失敗）に出すメッセージ
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  // 1プレイを記録して、リマインダー（今日達成したら今日の分は出さない）を更新する。失敗は画面に出す
+  const savePlay = async (play: Omit<PlayLogEntry, 'playedAt' | 'origin'>) => {
+    try {
+      await recordPlay(play);
+    } catch {
+      setSaveError('このプレイを記録できませんでした（これまでの記録はそのままです。アプリが最新か確かめてください）');
+      return;
+    }
+    void refreshGoalReminders();
+  };
+
+  // 復習: 期限が来た答えの数と、復習中のカード（null = 復習していない）
+  const [dueCount, setDueCount] = useState(0);
+  const [reviewCards, setReviewCards] = useState<ReviewCard[] | null>(null);
+  const refreshDue = useCallback((store: ReviewStoreV1) => {
+    setDueCount(dueReviewCards(store, localDateKey(), THEMES).length);
+  }, []);
+  useEffect(() => {
+    void (async () => {
+      refreshDue(await loadReviewStore());
+    })();
+  }, [refreshDue]);
+
+  // みんなで（1台を回して遊ぶ）。list テーマのみで、出題でテーマを変えても続ける
+  const [multiplayer, setMultiplayer] = useState(false);
+  const multiplayerDataset = multiplayer && theme.kind === 'list' ? theme : null;
+
+  // 選択式の不正解候補（同じカテゴリの他テーマ / countries_base）
+  const distractorPool = useMemo(
+    () => (pairsDataset ? [] : buildDistractorPool(activeTheme, THEMES, gradeOptions)),
+    [pairsDataset, activeTheme, gradeOptions]
+  );
+
+  // モード（通常 / 選択式 / 全部言えるか / 時間制限）。全部言えるかは答えの少ないテーマのみ
+  const [mode, setMode] = useState<QuizMode>('normal');
+  // pairs テーマはカード式のみ。不正解候補が無いテーマは選択式を出さない
+  const quizModes = useMemo<QuizMode[]>(
+    () =>
+      pairsDataset
+        ? ['normal']
+        : quizModesFor(dataset.answers.length).filter((m) => m !== 'choice' || distractorPool.length > 0),
+    [pairsDataset, dataset, distractorPool]
+  );
+  // 選んだモードがこのテーマで使えなければ通常。デイリーは選択式（不正解候補が無ければ通常）で固定
+  const activeMode: QuizMode = daily
+    ? distractorPool.length > 0
+      ? 'choice'
+      : 'normal'
+    : quizModes.includes(mode)
+      ? mode
+      : 'normal';
+  const isExhaustive = activeMode === 'exhaustive';
+  const isTimed = activeMode === 'timed';
+  const isChoice = activeMode === 'choice';
+  const isPractice = activeMode === 'practice';
+  const playTarget: TargetCount = isExhaustive ? 'all' : daily ? DAILY_TARGET : target;
+  const targetCount = resolveTargetCount(playTarget, dataset.answers.length);
+  // この回に出題する答え。デイリーはその日の答えだけ（選択式でも、不正解候補が無くて通常になっても同じ）
+  const playAnswers = useMemo(() => daily?.pinnedAnswers ?? dataset.answers, [daily, dataset]);
+
+  // 全部言えるか: 最初の回答を追加した時刻 / クリアタイム（ギブアップなら null）
+  const startedAtRef = useRef<number | null>(null);
+  const [completionMs, setCompletionMs] = useState<number | null>(null);
 
-  const dataset = activeTheme.dataset;
+  // 時間制限: 「スタート」を押した時刻 / 残り時間 / 送信時の得点
+  const [timedSeconds, setTimedSeconds] = useState<TimedSeconds>(DEFAULT_TIMED_SECONDS);
+  const [timerStartedAt, setTimerStartedAt] = useState<number | null>(null);
+  const [remainingMs, setRemainingMs] = useState<number>(DEFAULT_TIMED_SECONDS * 1000);
+  const [timedOutcome, setTimedOutcome] = useState<{ points: number; remainingMs: number } | null>(null);
+
+  // 出題をやり直すたびに増やす（pairs の山札 / 選択式の候補を引き直す）
+  const [playRound, setPlayRound] = useState(0);
+
+  // ヒント: いまヒントを出している答えと、この回に使ったヒントの数（1つごとにスコアが減る）
+  const [hint, setHint] = useState<HintState | null>(null);
+  const [hintsUsed, setHintsUsed] = useState(0);
+  // この回でヒントを出した答え（一部だけの回で「出題した」答えとして復習に数える）
+  const [hintedAnswers, setHintedAnswers] = useState<string[]>([]);
+  const shownHints = useMemo(
+    () => (hint ? hintsFor(hint.answer, gradeOptions).slice(0, hint.shown) : []),
+    [hint, gradeOptions]
+  );
+  const finalScore = result ? applyHintCost(result.score, hintsUsed) : 0;
+
+  // 練習: 追加したその場で1つずつ採点した結果（normalized -> 判定）。不正解は枠を使わない
+  const [practiceGrades, setPracticeGrades] = useState<Record<string, IncrementalGrade>>({});
+  const answerIndex = useMemo(() => buildAnswerIndex(playAnswers, gradeOptions), [playAnswers, gradeOptions]);
+
+  // 選択式: この回の候補（正解と不正解を混ぜたもの）
+  const [choices, setChoices] = useState<string[]>([]);
+  useEffect(() => {
+    if (!isChoice) return;
+    // 再開したプレイは保存していた候補のまま（選んだチップと合うように）
+    const saved = restoringFor(restoringRef.current, dataset.id)?.choices;
+    if (saved) {
+      setChoices(saved);
+      return;
+    }
+    // デイリーは日付の seed で並べる（全員が同じ候補を同じ順で見る）
+    setChoices(
+      daily
+        ? buildChoiceRound(playAnswers, distractorPool, targetCount, seededRandom(daily.seed))
+        : buildChoiceRound(playAnswers, distractorPool, targetCount)
+    );
+  }, [isChoice, daily, dataset, playAnswers, distractorPool, targetCount, playRound]);
 
   // Animations
   const questionAnim = useRef(new Animated.Value(0)).current; // 0..1 => opacity/scale
@@ -55,10 +304,25 @@ export default function HomeScreen() {
   const successFlash = useRef(new Animated.Value(0)).current; // 0..1
   const celebrateAnim = useRef(new Animated.Value(0)).current; // 0..1 (appear -> hide)
 
-  const inputNorm = useMemo(() => normalizeAnswer(input), [input]);
+  // 全部言えるか: 追加するたびに採点する（送信前の途中経過）
+  const liveResult = useMemo(
+    () => (isExhaustive ? gradeAnswers(items.map((x) => x.raw), playAnswers, gradeOptions) : null),
+    [isExhaustive, items, playAnswers, gradeOptions]
+  );
+  const liveFound = liveResult ? playAnswers.length - liveResult.missing.length : 0;
+
+  // 送信後（全部言えるかは途中経過も）: normalized -> trace（チップの色分け用）
+  const traceByNorm = useMemo(
+    () => new Map<string, GradeTraceEntry>(((result ?? liveResult)?.trace ?? []).map((t) => [t.normalized, t])),
+    [result, liveResult]
+  );
+
+  const inputNorm = useMemo(() => normalizeInput(input, answerIndex, profile), [input, answerIndex, profile]);
   const normSet = useMemo(() => new Set(items.map((x) => x.norm)), [items]);
+  // 目標数の枠を使っている回答の数（練習では正解だけ）
+  const slotsUsed = isPractice ? items.filter((x) => practiceGrades[x.norm]?.credited).length : items.length;
 
-  const canAdd = items.length < 10 && inputNorm.length > 0 && !normSet.has(inputNorm);
+  const canAdd = !result && (isExhaustive || slotsUsed < targetCount) && inputNorm.length > 0 && !normSet.has(inputNorm);
 
   const runQuestionAnimation = useCallback(() => {
     questionAnim.stopAnimation();
@@ -110,34 +374,254 @@ export default function HomeScreen() {
     setInput('');
     setError(null);
     setResult(null);
+    setCompletionMs(null);
+    startedAtRef.current = null;
+    setTimerStartedAt(null);
+    setTimedOutcome(null);
+    setHint(null);
+    setHintsUsed(0);
+    setHintedAnswers([]);
+    setPracticeGrades({});
+    setSaveError(null);
+    restoringRef.current = null;
+    setPlayRound((n) => n + 1);
+  };
+
+  const rememberTheme = (themeId: string) => {
+    recentThemeIdsRef.current = [themeId, ...recentThemeIdsRef.current.filter((id) => id !== themeId)].slice(
+      0,
+      RECENT_THEMES_TO_AVOID
+    );
   };
 
-  const drawTheme = () => {
+  // 決めたテーマで出題し直す（出題 / テーマ一覧の「遊ぶ」）
+  const openTheme = (picked: ThemeMeta) => {
+    rememberTheme(picked.id);
+    setSelectedCategoryId(picked.categoryId);
+    setActiveTheme(picked);
+    setDaily(null);
+    setReviewCards(null);
+    if (picked.dataset.kind === 'pairs') setMultiplayer(false);
+    resetPlay();
+    runQuestionAnimation();
+  };
+
+  const startMultiplayer = () => {
+    if (pairsDataset) {
+      setError('カード式のテーマは「みんなで」で遊べません');
+      return;
+    }
+    setDaily(null);
+    setReviewCards(null);
+    setMultiplayer(true);
+    resetPlay();
+  };
+
+  // みんなで: 1試合ごとに名前別の結果を保存（記録画面の対戦成績に使う）
+  const finishMultiplayer = (players: MatchPlayer[]) => {
+    recordMatch(activeTheme.id, players).catch(() => setSaveError('この試合の結果を記録できませんでした'));
+  };
+
+  // 出題: カテゴリ内から選ぶ（苦手優先 / 未プレイ優先は記録で重みづけ。最近のテーマは避ける）
+  const drawTheme = async () => {
     const pool = THEMES.filter((t) => t.categoryId === selectedCategoryId);
     if (pool.length === 0) {
       setError('このカテゴリにテーマがありません');
       return;
     }
 
-    const lastId = lastThemeIdRef.current;
-    const candidates =
-      pool.length >= 2 && lastId ? pool.filter((t) => t.id !== lastId) : pool;
-    const picked = candidates[Math.floor(Math.random() * candidates.length)];
+    const stats = drawStrategy === 'random' ? null : await loadStats();
+    const picked = pickTheme(pool, { stats, strategy: drawStrategy, recentIds: recentThemeIdsRef.current });
+    if (picked) openTheme(picked);
+  };
 
-    lastThemeIdRef.current = picked.id;
+  // テーマ一覧から「遊ぶ」で来たとき（at は同じテーマを選び直しても反応させるため）
+  const params = useLocalSearchParams<{ themeId?: string; at?: string }>();
+  const openThemeRef = useRef(openTheme);
+  openThemeRef.current = openTheme;
+  useEffect(() => {
+    const picked = params.themeId ? THEMES.find((t) => t.id === params.themeId) : undefined;
+    if (picked) openThemeRef.current(picked);
+  }, [params.themeId, params.at]);
+
+  const startDaily = () => {
+    const challenge = dailyChallengeFor(localDateKey(), THEMES);
+    const picked = challenge ? THEMES.find((t) => t.id === challenge.themeId) : undefined;
+    if (!challenge || !picked) {
+      setError('今日のお題を用意できませんでした');
+      return;
+    }
+
+    rememberTheme(picked.id);
+    setSelectedCategoryId(picked.categoryId);
     setActiveTheme(picked);
+    setDaily(challenge);
+    setReviewCards(null);
+    setMultiplayer(false);
     resetPlay();
     runQuestionAnimation();
   };
 
+  // 途中のプレイの保存: 回答・タイマー・ヒントが動いたら保存し、送信（result）やリセットで空になったら消す。
+  // 前回のセッションを「続きから / 破棄」で答えてもらうまでは触らない（新しいプレイを始めたら上書き）
+  const [sessionChecked, setSessionChecked] = useState(false);
+  const [restoreOffer, setRestoreOffer] = useState<QuizSessionV1 | null>(null);
+  useEffect(() => {
+    void (async () => {
+      const saved = await loadSession();
+      if (saved && THEMES.some((t) => t.id === saved.themeId)) setRestoreOffer(saved);
+      setSessionChecked(true);
+    })();
+  }, []);
+
+  const inProgress =
+    !pairsDataset && !reviewCards && !multiplayerDataset && !result && (items.length > 0 || timerStartedAt != null || hintsUsed > 0);
+  useEffect(() => {
+    if (!sessionChecked) return;
+    if (!inProgress) {
+      if (!restoreOffer) clearSession().catch(() => setSaveError('途中のプレイの保存を消せませんでした'));
+      return;
+    }
+    if (restoreOffer) setRestoreOffer(null);
+    saveSession({
+      themeId: activeTheme.id,
+      mode,
+      target,
+      acceptEnglish,
+      items,
+      choices: isChoice ? choices : null,
+      practiceGrades,
+      hint,
+      hintsUsed,
+      hintedAnswers,
+      timedSeconds,
+      timerStartedAt,
+      exhaustiveStartedAt: startedAtRef.current,
+      dailyDate: daily?.date ?? null,
+      savedAt: Date.now(),
+    }).catch(() => setSaveError('途中のプレイを保存できませんでした（アプリを閉じると続きから再開できません）'));
+  }, [
+    sessionChecked,
+    restoreOffer,
+    inProgress,
+    activeTheme.id,
+    mode,
+    target,
+    acceptEnglish,
+    items,
+    isChoice,
+    choices,
+    practiceGrades,
+    hint,
+    hintsUsed,
+    hintedAnswers,
+    timedSeconds,
+    timerStartedAt,
+    daily,
+  ]);
+
+  // 前回のセッションを再開する（時間制限は保存した開始時刻のまま。時間切れならすぐ採点される）
+  const restoreSession = (saved: QuizSessionV1) => {
+    setRestoreOffer(null);
+    const picked = THEMES.find((t) => t.id === saved.themeId);
+    if (!picked) return;
+    const challenge = saved.dailyDate ? dailyChallengeFor(saved.dailyDate, THEMES) : null;
+
+    restoringRef.current = saved;
+    rememberTheme(picked.id);
+    setSelectedCategoryId(picked.categoryId);
+    setActiveTheme(picked);
+    setDaily(challenge?.themeId === picked.id ? challenge : null);
+    setReviewCards(null);
+    setMultiplayer(false);
+    setMode(saved.mode);
+    setTarget(saved.target);
+    setAcceptEnglish(saved.acceptEnglish);
+    if (saved.choices) setChoices(saved.choices);
+    setItems(saved.items);
+    setInput('');
+    setError(null);
+    setResult(null);
+    setCompletionMs(null);
+    startedAtRef.current = saved.exhaustiveStartedAt;
+    setTimedSeconds(saved.timedSeconds);
+    setTimerStartedAt(saved.timerStartedAt);
+    setTimedOutcome(null);
+    setHint(saved.hint);
+    setHintsUsed(saved.hintsUsed);
+    setHintedAnswers(saved.hintedAnswers);
+    setPracticeGrades(saved.practiceGrades);
+    runQuestionAnimation();
+  };
+
+  const startReview = async () => {
+    const due = dueReviewCards(await loadReviewStore(), localDateKey(), THEMES);
+    if (due.length === 0) {
+      setError('今日復習する答えはありません');
+      return;
+    }
+    setError(null);
+    setReviewCards(due.slice(0, REVIEW_SESSION_SIZE));
+    setMultiplayer(false);
+    setPlayRound((n) => n + 1);
+  };
+
+  const answerReview = (card: ReviewCard, r: ReviewAnswerResult) => {
+    void (async () => {
+      try {
+        const store = await recordReviewOutcomes(
+          card.themeId,
+          [{ answer: card.answer, prompt: card.prompt, recalled: r.correct }],
+          localDateKey()
+        );
+        refreshDue(store);
+      } catch {
+        setSaveError('復習の記録を保存できませんでした');
+      }
+    })();
+  };
+
+  // 復習用の記録: 当てた答え = 思い出せた / 出題したのに出なかった答え = 忘れた
+  const recordRecall = (outcomes: ReviewOutcome[]) => {
+    void (async () => {
+      try {
+        refreshDue(await recordReviewOutcomes(activeTheme.id, outcomes, localDateKey()));
+      } catch {
+        setSaveError('復習の記録を保存できませんでした');
+      }
+    })();
+  };
+
+  // この回で「出題した」答えのうち出なかったもの。選択式は候補に出した答え、全部の回は答え全部。
+  // 目標数が一部だけの回は、ヒントを出した答えと、惜しい回答で書こうとした答え（得点にならなかったもの）
+  const lapsesOf = (r: GradeResult): string[] => {
+    if (isChoice) return r.missing.filter((a) => choices.includes(a));
+    if (targetCount >= playAnswers.length) return r.missing;
+    const asked = new Set([...hintedAnswers, ...r.nearMiss.map((m) => m.answer)]);
+    return r.missing.filter((a) => asked.has(a));
+  };
+  const outcomesOf = (r: GradeResult): ReviewOutcome[] => [
+    ...r.hits.map((answer) => ({ answer, recalled: true })),
+    ...lapsesOf(r).map((answer) => ({ answer, recalled: false })),
+  ];
+
   const add = () => {
-    const norm = normalizeAnswer(input);
+    const norm = normalizeInput(input, answerIndex, profile);
     if (!norm) {
       setError('入力してください');
       return;
     }
-    if (items.length >= 10) {
-      setError('10個までです');
+    // 採点済みの回は変えない（送り直すと記録や復習が二重になるので、どのモードも「同じ問題をもう一度」から）
+    if (result) {
+      setError('「同じ問題をもう一度」で最初から挑戦できます');
+      return;
+    }
+    if (isTimed && timerStartedAt == null) {
+      setError('「スタート」を押すと始まります');
+      return;
+    }
+    if (!isExhaustive && slotsUsed >= targetCount) {
+      setError(`${targetCount}個までです`);
       return;
     }
     if (normSet.has(norm)) {
@@ -145,51 +629,221 @@ export default function HomeScreen() {
       return;
     }
 
-    setItems((prev) => [...prev, { raw: input, norm }]);
+    const next = [...items, { raw: input, norm }];
+    setItems(next);
     setInput('');
     setError(null);
-    setResult(null);
+
+    if (isExhaustive) {
+      startedAtRef.current ??= Date.now();
+      const r = gradeAnswers(next.map((x) => x.raw), playAnswers, gradeOptions);
+      if (r.missing.length === 0) finishExhaustive(r, true);
+    }
+
+    if (isPractice) {
+      // それまでに正解した答え（同じ答えの別表記は二重に数えない）
+      const found = new Set<string>();
+      for (const x of items) {
+        const g = practiceGrades[x.norm];
+        if (g?.credited && g.entry.matched) found.add(g.entry.matched);
+      }
+      const g = gradeIncremental(input, answerIndex, found, gradeOptions);
+      setPracticeGrades((prev) => ({ ...prev, [norm]: g }));
+      if (!g.credited) {
+        setError(
+          g.entry.kind === 'fuzzy'
+            ? '惜しい！（枠は空いたままです）'
+            : g.entry.matched
+              ? 'その答えはもう見つけています'
+              : '不正解（枠は空いたままです）'
+        );
+      }
+    }
   };
 
   const remove = (norm: string) => {
+    if (result) return;
     setItems((prev) => prev.filter((x) => x.norm !== norm));
     setError(null);
-    setResult(null);
+  };
+
+  // 選択式: 候補をタップで選ぶ / 外す（選んだものが回答になり、送信以降は通常と同じ）
+  const toggleChoice = (name: string) => {
+    if (result) return;
+    const norm = normalizeAnswer(name, profile);
+    if (normSet.has(norm)) {
+      remove(norm);
+      return;
+    }
+    if (items.length >= targetCount) {
+      setError(`${targetCount}個までです`);
+      return;
+    }
+    setItems((prev) => [...prev, { raw: name, norm }]);
+    setError(null);
+  };
+
+  // ヒント: まだ見つけていない答えについて、文字数 → 最初のカナ → 地域 の順に1つずつ出す
+  const showHint = () => {
+    if (result) return;
+    if (isTimed && timerStartedAt == null) {
+      setError('「スタート」を押すと始まります');
+      return;
+    }
+    const r = gradeAnswers(items.map((x) => x.raw), playAnswers, gradeOptions);
+    // 選択式は候補に出ている答えだけ
+    const missing = isChoice ? r.missing.filter((a) => choices.includes(a)) : r.missing;
+    const next = nextHint(hint, missing, gradeOptions);
+    if (!next) {
+      setError('これ以上ヒントはありません');
+      return;
+    }
+    setHint(next);
+    setHintsUsed((n) => n + 1);
+    setHintedAnswers((prev) => (prev.includes(next.answer) ? prev : [...prev, next.answer]));
+    setError(null);
   };
 
   const submit = () => {
+    if (isTimed) {
+      submitTimed();
+      return;
+    }
+    // 採点済みの回は送り直さない（記録や復習が二重にならないように。採点後は回答も変えられない）
+    if (result) return;
+
     Keyboard.dismiss();
     const userAnswers = items.map((x) => x.raw);
-    const r = gradeAnswers(userAnswers, dataset.answers);
+    const r = gradeAnswers(userAnswers, playAnswers, gradeOptions);
+    setResult(r);
+    setError(null);
+    recordRecall(outcomesOf(r));
+
+    // Record play (AsyncStorage). Perfect = every answer of the target found (after hint costs); kept per target.
+    // 練習は枠を使わなかった回答（不正解）を、それ以外は採点の wrong を残す。練習/デイリーの集計は記録側で分ける
+    const score = applyHintCost(r.score, hintsUsed);
+    void savePlay({
+      themeId: activeTheme.id,
+      mode: activeMode,
+      target: targetKey(playTarget, dataset.answers.length),
+      asked: targetCount,
+      score,
+      perfect: score >= targetCount,
+      wrong: isPractice ? items.filter((x) => !practiceGrades[x.norm]?.credited).map((x) => x.raw) : r.wrong,
+      missing: lapsesOf(r),
+      hintsUsed,
+      daily: daily?.date,
+    });
+  };
+
+  // pairs: 最後のカードに答えたら記録（全部正解で成功）
+  const finishPairs = (results: PairCardResult[]) => {
+    const correct = results.filter((r) => r.correct).length;
+    const missed = results.filter((r) => !r.correct);
+    recordRecall(results.map((r) => ({ answer: r.answer, prompt: r.prompt, recalled: r.correct })));
+    void savePlay({
+      themeId: activeTheme.id,
+      mode: 'pairs',
+      target: targetKey(target, dataset.answers.length),
+      asked: results.length,
+      score: correct,
+      perfect: correct >= results.length,
+      wrong: missed.filter((r) => r.input).map((r) => r.input),
+      missing: missed.map((r) => r.answer),
+      hintsUsed: 0,
+    });
+  };
+
+  const startTimer = () => {
+    resetPlay();
+    setRemainingMs(timedSeconds * 1000);
+    setTimerStartedAt(Date.now());
+  };
+
+  // 時間制限: 送信ボタン or 残り0秒で自動送信。得点は正解数 + 残り時間（通常の記録とは別に保存）
+  const submitTimed = () => {
+    if (result) return;
+    if (timerStartedAt == null) {
+      setError('「スタート」を押すと始まります');
+      return;
+    }
+
+    Keyboard.dismiss();
+    const left = Math.max(0, timerStartedAt + timedSeconds * 1000 - Date.now());
+    const r = gradeAnswers(items.map((x) => x.raw), playAnswers, gradeOptions);
+    const points = timedPoints(applyHintCost(r.score, hintsUsed), targetCount, left);
+    setRemainingMs(left);
+    setResult(r);
+    setTimedOutcome({ points, remainingMs: left });
+    setError(null);
+    recordRecall(outcomesOf(r));
+
+    const score = applyHintCost(r.score, hintsUsed);
+    void savePlay({
+      themeId: activeTheme.id,
+      mode: 'timed',
+      target: targetKey(target, dataset.answers.length),
+      asked: targetCount,
+      score,
+      perfect: score >= targetCount,
+      wrong: r.wrong,
+      missing: lapsesOf(r),
+      hintsUsed,
+      timed: { seconds: timedSeconds, points, correct: r.score, remainingMs: left },
+    });
+  };
+
+  // カウントダウン（0 になったら自動送信）。interval からは常に最新の submit を呼ぶ
+  const submitRef = useRef(submit);
+  submitRef.current = submit;
+  useEffect(() => {
+    if (!isTimed || timerStartedAt == null || result) return;
+    const endAt = timerStartedAt + timedSeconds * 1000;
+    const tick = () => {
+      const left = Math.max(0, endAt - Date.now());
+      setRemainingMs(left);
+      if (left === 0) submitRef.current();
+    };
+    tick();
+    const id = setInterval(tick, 250);
+    return () => clearInterval(id);
+  }, [isTimed, timerStartedAt, timedSeconds, result]);
+
+  // 全部言えるか: 全部見つけた（completed）か、ギブアップで終了。残りは結果カードに全件出す
+  const finishExhaustive = (r: GradeResult, completed: boolean) => {
+    Keyboard.dismiss();
+    const startedAt = startedAtRef.current;
+    const ms = completed && startedAt != null ? Date.now() - startedAt : null;
     setResult(r);
+    setCompletionMs(ms);
     setError(null);
+    recordRecall(outcomesOf(r));
+
+    // ヒントを使ったら、全部見つけても成功にはしない（クリアタイムは残す）
+    void savePlay({
+      themeId: activeTheme.id,
+      mode: 'exhaustive',
+      target: targetKey('all', dataset.answers.length),
+      asked: dataset.answers.length,
+      score: applyHintCost(r.score, hintsUsed),
+      perfect: completed && hintsUsed === 0,
+      wrong: r.wrong,
+      missing: r.missing,
+      hintsUsed,
+      completionMs: ms ?? undefined,
+    });
+  };
 
-    // Record play (AsyncStorage). Perfect is score===10 by spec.
-    void recordPlay(activeTheme.id, r.score === 10);
+  const giveUp = () => {
+    if (result) return;
+    finishExhaustive(gradeAnswers(items.map((x) => x.raw), playAnswers, gradeOptions), false);
   };
 
   const openExplain = () => {
     if (!result) return;
 
-    // correct normalized -> first original (from dataset answers) for stable names
-    const correctNormToFirstOriginal = new Map<string, string>();
-    for (const ans of dataset.answers) {
-      const norm = normalizeAnswer(ans);
-      if (!norm) continue;
-      if (!correctNormToFirstOriginal.has(norm)) correctNormToFirstOriginal.set(norm, ans);
-    }
-    const correctNormSet = new Set(correctNormToFirstOriginal.keys());
-
-    const correctHitNorms = new Set<string>();
-    const correctHitNames: string[] = [];
-    for (const it of items) {
-      if (!it.norm) continue;
-      if (correctHitNorms.has(it.norm)) continue;
-      if (!correctNormSet.has(it.norm)) continue;
-      correctHitNorms.add(it.norm);
-      const name = correctNormToFirstOriginal.get(it.norm);
-      if (name) correctHitNames.push(name);
-    }
+    // 採点結果の hits（正答の表示名）をそのまま渡す
+    const correctHitNames = result.hits;
 
     router.push({
       pathname: '/explain',
@@ -240,7 +894,7 @@ export default function HomeScreen() {
       }),
     ]);
 
-    if (result.score === 10) {
+    if (finalScore >= targetCount) {
       base.start(({ finished }) => {
         if (!finished) return;
 
@@ -300,7 +954,7 @@ export default function HomeScreen() {
     // Final safety: force visible after animations
     const t = setTimeout(() => resultOpacity.setValue(1), 600);
     return () => clearTimeout(t);
-  }, [result, resultAnim, resultOpacity, successFlash, celebrateAnim]);
+  }, [result, finalScore, targetCount, resultAnim, resultOpacity, successFlash, celebrateAnim]);
 
   useEffect(() => {
     if (!result) return;
@@ -314,6 +968,10 @@ export default function HomeScreen() {
   // Keep results visible above the fixed footer
   const scrollPaddingBottom = footerHeight + 16;
 
+  // カウントダウン表示は秒の切り上げ（0:01 の間はまだ終わっていない）
+  const shownRemainingMs = timerStartedAt == null ? timedSeconds * 1000 : Math.ceil(remainingMs / 1000) * 1000;
+  const timeLow = timerStartedAt != null && !result && remainingMs <= 10_000;
+
   return (
     <KeyboardAvoidingView
       style={styles.kav}
@@ -326,6 +984,44 @@ export default function HomeScreen() {
           ref={scrollRef}
           contentContainerStyle={[styles.container, { paddingBottom: scrollPaddingBottom }]}
           keyboardShouldPersistTaps="handled">
+          {goalStatus ? <GoalStatus progress={goalStatus.progress} streak={goalStatus.streak} compact /> : null}
+
+          {/* 前回の途中のプレイ（アプリが終了しても残る） */}
+          {restoreOffer ? (
+            <ThemedView style={[styles.restoreBox, { borderColor: tint }]}>
+              <ThemedText type="defaultSemiBold">前回の途中のプレイがあります</ThemedText>
+              <ThemedText lightColor={icon} darkColor={icon}>
+                {THEMES.find((t) => t.id === restoreOffer.themeId)?.title ?? restoreOffer.themeId}・
+                {restoreOffer.dailyDate ? '今日のお題' : quizModeLabel(restoreOffer.mode)}・
+                {restoreOffer.items.length}個入力済み
+              </ThemedText>
+              <View style={styles.quizActionsRow}>
+                <Pressable
+                  onPress={() => restoreSession(restoreOffer)}
+                  style={({ pressed }) => [
+                    styles.secondaryButton,
+                    { borderColor: tint },
+                    pressed ? { opacity: 0.85 } : null,
+                  ]}>
+                  <ThemedText style={styles.secondaryButtonText} lightColor={tint} darkColor={tint}>
+                    続きから
+                  </ThemedText>
+                </Pressable>
+                <Pressable
+                  onPress={() => setRestoreOffer(null)}
+                  style={({ pressed }) => [
+                    styles.ghostButton,
+                    { borderColor: icon },
+                    pressed ? { opacity: 0.85 } : null,
+                  ]}>
+                  <ThemedText style={styles.ghostButtonText} lightColor={icon} darkColor={icon}>
+                    破棄
+                  </ThemedText>
+                </Pressable>
+              </View>
+            </ThemedView>
+          ) : null}
+
           {/* カテゴリ選択 */}
           <ThemedView style={styles.section}>
             <ThemedText type="subtitle">カテゴリ</ThemedText>
@@ -358,7 +1054,7 @@ export default function HomeScreen() {
             <ThemedText type="subtitle">出題</ThemedText>
             <View style={styles.quizActionsRow}>
               <Pressable
-                onPress={drawTheme}
+                onPress={() => void drawTheme()}
                 style={({ pressed }) => [
                   styles.secondaryButton,
                   { borderColor: tint },
@@ -368,6 +1064,45 @@ export default function HomeScreen() {
                   出題
                 </ThemedText>
               </Pressable>
+              <Pressable
+                onPress={startDaily}
+                style={({ pressed }) => [
+                  styles.secondaryButton,
+                  { borderColor: tint },
+                  pressed ? { opacity: 0.85 } : null,
+                ]}>
+                <ThemedText style={styles.secondaryButtonText} lightColor={tint} darkColor={tint}>
+                  今日のお題
+                </ThemedText>
+              </Pressable>
+              <Pressable
+                onPress={() => void startReview()}
+                style={({ pressed }) => [
+                  styles.ghostButton,
+                  { borderColor: dueCount > 0 ? tint : icon },
+                  pressed ? { opacity: 0.85 } : null,
+                ]}>
+                <ThemedText
+                  style={styles.ghostButtonText}
+                  lightColor={dueCount > 0 ? tint : icon}
+                  darkColor={dueCount > 0 ? tint : icon}>
+                  復習（{dueCount}）
+                </ThemedText>
+              </Pressable>
+              <Pressable
+                onPress={startMultiplayer}
+                style={({ pressed }) => [
+                  styles.ghostButton,
+                  { borderColor: multiplayerDataset ? tint : icon },
+                  pressed ? { opacity: 0.85 } : null,
+                ]}>
+                <ThemedText
+                  style={styles.ghostButtonText}
+                  lightColor={multiplayerDataset ? tint : icon}
+                  darkColor={multiplayerDataset ? tint : icon}>
+                  みんなで
+                </ThemedText>
+              </Pressable>
               <Pressable
                 onPress={() => {
                   resetPlay();
@@ -383,219 +1118,510 @@ export default function HomeScreen() {
                 </ThemedText>
               </Pressable>
             </View>
-          </ThemedView>
-
-          {/* 出題カード */}
-          <Animated.View
-            style={{
-              opacity: questionAnim,
-              transform: [
-                { translateY: questionLift },
-                {
-                  scale: Animated.multiply(
-                    questionAnim.interpolate({
-                      inputRange: [0, 1],
-                      outputRange: [0.95, 1],
-                    }),
-                    questionScale
-                  ),
-                },
-              ],
-            }}>
-            <ThemedView style={[styles.card, { borderColor: icon }]}>
-              <ThemedText style={styles.cardLabel} lightColor={icon} darkColor={icon}>
-                今日のお題
-              </ThemedText>
-              <ThemedText style={styles.cardTitle}>{dataset.title}</ThemedText>
-              <ThemedText style={styles.cardSub} lightColor={icon} darkColor={icon}>
-                10個、思い出せる？
-              </ThemedText>
-
-              <View style={styles.cardMetaRow}>
-                <ThemedText type="defaultSemiBold">
-                  {items.length} / 10
-                </ThemedText>
-              </View>
-            </ThemedView>
-          </Animated.View>
-
-          {/* 入力 */}
-          <ThemedView style={styles.section}>
-            <ThemedText type="subtitle">入力</ThemedText>
-            <ThemedView style={styles.inputRow}>
-              <TextInput
-                value={input}
-                onChangeText={(t) => {
-                  setInput(t);
-                  setError(null);
-                }}
-                placeholder="国名を入力"
-                placeholderTextColor={icon}
-                style={[styles.input, { borderColor: icon, color: textColor }]}
-                autoCapitalize="none"
-                autoCorrect={false}
-                returnKeyType="done"
-                onSubmitEditing={add}
-              />
-              <Pressable
-                onPress={add}
-                // disabledにすると「何も起きない」状態が生まれるので押せるままにする
-                style={({ pressed }) => [
-                  styles.primaryButton,
-                  {
-                    backgroundColor: canAdd ? tint : icon,
-                    opacity: pressed ? 0.85 : 1,
-                  },
-                ]}>
-                <ThemedText style={styles.primaryButtonText} lightColor="#fff" darkColor="#151718">
-                  追加
-                </ThemedText>
-              </Pressable>
-            </ThemedView>
-            {error ? (
-              <ThemedView style={[styles.message, { borderColor: icon }]}>
-                <ThemedText>{error}</ThemedText>
-              </ThemedView>
-            ) : null}
-          </ThemedView>
-
-          {/* 回答チップ */}
-          <ThemedView style={styles.section}>
-            <ThemedText type="subtitle">回答</ThemedText>
-            <View style={styles.chipsRow}>
-              {items.length === 0 ? (
-                <ThemedText style={{ color: icon }}>まだ追加されていません</ThemedText>
-              ) : (
-                items.map((item) => (
+            <View style={styles.categoryRow}>
+              {DRAW_STRATEGIES.map((st) => {
+                const selected = st === drawStrategy;
+                return (
                   <Pressable
-                    key={item.norm}
-                    onPress={() => remove(item.norm)}
+                    key={st}
+                    onPress={() => setDrawStrategy(st)}
                     style={({ pressed }) => [
-                      styles.chip,
-                      { borderColor: icon },
-                      pressed ? { opacity: 0.8 } : null,
+                      styles.categoryChip,
+                      { borderColor: selected ? tint : icon },
+                      pressed ? { opacity: 0.85 } : null,
                     ]}>
-                    <ThemedText style={styles.chipText}>{item.raw}</ThemedText>
-                    <ThemedText style={styles.chipX} lightColor={tint} darkColor={tint}>
-                      ×
+                    <ThemedText
+                      style={styles.categoryChipText}
+                      lightColor={selected ? tint : undefined}
+                      darkColor={selected ? tint : undefined}>
+                      {drawStrategyLabel(st)}
                     </ThemedText>
                   </Pressable>
-                ))
-              )}
+                );
+              })}
             </View>
-            <ThemedText type="default" lightColor={icon} darkColor={icon}>
-              チップをタップすると削除できます（重複/上限は正規化後に判定）
-            </ThemedText>
+            <DailyStrip results={dailyResults} today={localDateKey()} />
+            {quizModes.length > 1 && !daily && !reviewCards && !multiplayerDataset ? (
+              <View style={styles.categoryRow}>
+                {quizModes.map((m) => {
+                  const selected = m === activeMode;
+                  return (
+                    <Pressable
+                      key={m}
+                      onPress={() => {
+                        setMode(m);
+                        resetPlay();
+                      }}
+                      style={({ pressed }) => [
+                        styles.categoryChip,
+                        { borderColor: selected ? tint : icon },
+                        pressed ? { opacity: 0.85 } : null,
+                      ]}>
+                      <ThemedText
+                        style={styles.categoryChipText}
+                        lightColor={selected ? tint : undefined}
+                        darkColor={selected ? tint : undefined}>
+                        {quizModeLabel(m)}
+                      </ThemedText>
+                    </Pressable>
+                  );
+                })}
+              </View>
+            ) : null}
+            {isTimed && !reviewCards && !multiplayerDataset ? (
+              <View style={styles.categoryRow}>
+                {TIMED_SECONDS_OPTIONS.map((sec) => {
+                  const selected = sec === timedSeconds;
+                  return (
+                    <Pressable
+                      key={sec}
+                      onPress={() => {
+                        setTimedSeconds(sec);
+                        setRemainingMs(sec * 1000);
+                        resetPlay();
+                      }}
+                      style={({ pressed }) => [
+                        styles.categoryChip,
+                        { borderColor: selected ? tint : icon },
+                        pressed ? { opacity: 0.85 } : null,
+                      ]}>
+                      <ThemedText
+                        style={styles.categoryChipText}
+                        lightColor={selected ? tint : undefined}
+                        darkColor={selected ? tint : undefined}>
+                        {sec}秒
+                      </ThemedText>
+                    </Pressable>
+                  );
+                })}
+              </View>
+            ) : null}
+            {isExhaustive || daily || reviewCards || multiplayerDataset ? null : (
+              <View style={styles.categoryRow}>
+                {targetOptions.map((t) => {
+                  const selected = t === target;
+                  return (
+                    <Pressable
+                      key={String(t)}
+                      onPress={() => {
+                        setTarget(t);
+                        resetPlay();
+                      }}
+                      style={({ pressed }) => [
+                        styles.categoryChip,
+                        { borderColor: selected ? tint : icon },
+                        pressed ? { opacity: 0.85 } : null,
+                      ]}>
+                      <ThemedText
+                        style={styles.categoryChipText}
+                        lightColor={selected ? tint : undefined}
+                        darkColor={selected ? tint : undefined}>
+                        {targetLabel(t)}
+                      </ThemedText>
+                    </Pressable>
+                  );
+                })}
+              </View>
+            )}
           </ThemedView>
 
-          {/* 結果 */}
-          {result ? (
-            <Animated.View
-              style={{
-                opacity: resultOpacity,
-                transform: [{ scale: resultAnim }],
-              }}>
-              <ThemedView style={styles.section}>
-                <ThemedText type="subtitle">結果</ThemedText>
+          {saveError ? (
+            <ThemedView style={[styles.message, { borderColor: icon }]}>
+              <ThemedText>{saveError}</ThemedText>
+            </ThemedView>
+          ) : null}
 
-                <Animated.View
-                  style={[
-                    styles.resultSummaryBox,
+          {multiplayerDataset ? (
+            <MultiplayerQuiz
+              key={`multiplayer:${multiplayerDataset.id}`}
+              dataset={multiplayerDataset}
+              gradeOptions={gradeOptions}
+              onFinish={finishMultiplayer}
+              onClose={() => setMultiplayer(false)}
+            />
+          ) : reviewCards ? (
+            <ReviewQuiz
+              key={`review:${playRound}`}
+              cards={reviewCards}
+              onAnswer={answerReview}
+              onClose={() => setReviewCards(null)}
+            />
+          ) : pairsDataset ? (
+            <PairsQuiz
+              key={`${pairsDataset.id}:${targetCount}:${playRound}`}
+              dataset={pairsDataset}
+              cardCount={targetCount}
+              onFinish={finishPairs}
+              onRestart={() => setPlayRound((n) => n + 1)}
+            />
+          ) : (
+            <>
+              {/* 出題カード */}
+              <Animated.View
+                style={{
+                  opacity: questionAnim,
+                  transform: [
+                    { translateY: questionLift },
                     {
-                      backgroundColor: successFlash.interpolate({
-                        inputRange: [0, 1],
-                        outputRange: ['rgba(0,0,0,0)', 'rgba(46, 204, 113, 0.18)'],
-                      }),
-                      borderColor: icon,
-                    },
-                  ]}>
-                  {result.score === 10 ? (
-                    <Animated.View
-                      pointerEvents="none"
-                      style={{
-                        position: 'absolute',
-                        top: -8,
-                        right: -8,
-                        opacity: celebrateAnim.interpolate({
+                      scale: Animated.multiply(
+                        questionAnim.interpolate({
                           inputRange: [0, 1],
-                          outputRange: [0, 1],
+                          outputRange: [0.95, 1],
                         }),
-                        transform: [
-                          {
-                            scale: celebrateAnim.interpolate({
-                              inputRange: [0, 1],
-                              outputRange: [0.6, 1.1],
-                            }),
-                          },
-                        ],
-                      }}>
-                      <ThemedText style={styles.celebrateBadge}>🎉</ThemedText>
-                    </Animated.View>
-                  ) : null}
-                  <ThemedText>正解数: {result.score}</ThemedText>
-                  <ThemedText>不足数（10 - 入力数）: {Math.max(0, 10 - items.length)}</ThemedText>
-                </Animated.View>
+                        questionScale
+                      ),
+                    },
+                  ],
+                }}>
+                <ThemedView style={[styles.card, { borderColor: icon }]}>
+                  <ThemedText style={styles.cardLabel} lightColor={icon} darkColor={icon}>
+                    {daily ? `今日のお題（${daily.date}・みんな同じ問題）` : 'お題'}
+                  </ThemedText>
+                  <ThemedText style={styles.cardTitle}>{dataset.title}</ThemedText>
+                  <ThemedText style={styles.cardSub} lightColor={icon} darkColor={icon}>
+                    {isExhaustive
+                      ? `全部（${targetCount}個）、言える？`
+                      : `${playTarget === 'all' ? `全部（${targetCount}個）` : `${targetCount}個`}、${isChoice ? '選べる？' : '思い出せる？'}`}
+                  </ThemedText>
 
-                <ThemedView style={styles.resultsBlock}>
-                  <ThemedText type="defaultSemiBold">不正解</ThemedText>
-                  {result.wrong.length === 0 ? (
-                    <ThemedText>なし</ThemedText>
-                  ) : (
-                    result.wrong.map((w, i) => <ThemedText key={`${w}-${i}`}>- {w}</ThemedText>)
-                  )}
+                  <View style={styles.cardMetaRow}>
+                    <ThemedText type="defaultSemiBold">
+                      {isExhaustive ? `見つけた: ${liveFound} / ${targetCount}` : `${slotsUsed} / ${targetCount}`}
+                    </ThemedText>
+                    {isTimed ? (
+                      <ThemedText
+                        type="defaultSemiBold"
+                        lightColor={timeLow ? '#e74c3c' : undefined}
+                        darkColor={timeLow ? '#e74c3c' : undefined}>
+                        残り {formatDuration(shownRemainingMs)}
+                      </ThemedText>
+                    ) : null}
+                  </View>
+                  {isTimed && timerStartedAt == null && !result ? (
+                    <Pressable
+                      onPress={startTimer}
+                      style={({ pressed }) => [
+                        styles.secondaryButton,
+                        { borderColor: tint },
+                        pressed ? { opacity: 0.85 } : null,
+                      ]}>
+                      <ThemedText style={styles.secondaryButtonText} lightColor={tint} darkColor={tint}>
+                        スタート
+                      </ThemedText>
+                    </Pressable>
+                  ) : null}
+                  {!result ? (
+                    <View style={styles.hintRow}>
+                      <Pressable
+                        onPress={showHint}
+                        style={({ pressed }) => [
+                          styles.ghostButton,
+                          { borderColor: icon },
+                          pressed ? { opacity: 0.85 } : null,
+                        ]}>
+                        <ThemedText style={styles.ghostButtonText} lightColor={icon} darkColor={icon}>
+                          ヒント（-{HINT_COST}）
+                        </ThemedText>
+                      </Pressable>
+                      {hintsUsed > 0 ? (
+                        <ThemedText style={styles.cardExample} lightColor={icon} darkColor={icon}>
+                          使ったヒント: {hintsUsed}回
+                        </ThemedText>
+                      ) : null}
+                    </View>
+                  ) : null}
+                  {shownHints.map((h) => (
+                    <ThemedText key={h.kind} style={styles.hintText}>
+                      ・{h.text}
+                    </ThemedText>
+                  ))}
                 </ThemedView>
+              </Animated.View>
+
+              {/* 入力 */}
+              <ThemedView style={styles.section}>
+                <ThemedText type="subtitle">{isChoice ? '候補（当てはまるものを選ぶ）' : '入力'}</ThemedText>
+                {isChoice ? (
+                  <View style={styles.categoryRow}>
+                    {choices.map((c) => {
+                      const selected = normSet.has(normalizeAnswer(c, profile));
+                      return (
+                        <Pressable
+                          key={c}
+                          onPress={() => toggleChoice(c)}
+                          style={({ pressed }) => [
+                            styles.categoryChip,
+                            { borderColor: selected ? tint : icon },
+                            selected ? { borderWidth: 2 } : null,
+                            pressed ? { opacity: 0.85 } : null,
+                          ]}>
+                          <ThemedText
+                            style={styles.categoryChipText}
+                            lightColor={selected ? tint : undefined}
+                            darkColor={selected ? tint : undefined}>
+                            {c}
+                          </ThemedText>
+                        </Pressable>
+                      );
+                    })}
+                  </View>
+                ) : (
+                  <ThemedView style={styles.inputRow}>
+                    <TextInput
+                      value={input}
+                      onChangeText={(t) => {
+                        setInput(t);
+                        setError(null);
+                      }}
+                      placeholder="国名を入力"
+                      placeholderTextColor={icon}
+                      style={[styles.input, { borderColor: icon, color: textColor }]}
+                      autoCapitalize="none"
+                      autoCorrect={false}
+                      returnKeyType="done"
+                      onSubmitEditing={add}
+                    />
+                    <Pressable
+                      onPress={add}
+                      // disabledにすると「何も起きない」状態が生まれるので押せるままにする
+                      style={({ pressed }) => [
+                        styles.primaryButton,
+                        {
+                          backgroundColor: canAdd ? tint : icon,
+                          opacity: pressed ? 0.85 : 1,
+                        },
+                      ]}>
+                      <ThemedText style={styles.primaryButtonText} lightColor="#fff" darkColor="#151718">
+                        追加
+                      </ThemedText>
+                    </Pressable>
+                  </ThemedView>
+                )}
+                {canAcceptEnglish && !isChoice ? (
+                  <View style={styles.categoryRow}>
+                    <Pressable
+                      onPress={() => {
+                        // 採点済みの回は採点の条件も変えない
+                        if (result) return;
+                        setAcceptEnglish((v) => !v);
+                      }}
+                      style={({ pressed }) => [
+                        styles.categoryChip,
+                        { borderColor: acceptEnglish ? tint : icon },
+                        pressed ? { opacity: 0.85 } : null,
+                      ]}>
+                      <ThemedText
+                        style={styles.categoryChipText}
+                        lightColor={acceptEnglish ? tint : undefined}
+                        darkColor={acceptEnglish ? tint : undefined}>
+                        英語名もOK{acceptEnglish ? '（ON）' : '（OFF）'}
+                      </ThemedText>
+                    </Pressable>
+                  </View>
+                ) : null}
+                {error ? (
+                  <ThemedView style={[styles.message, { borderColor: icon }]}>
+                    <ThemedText>{error}</ThemedText>
+                  </ThemedView>
+                ) : null}
+              </ThemedView>
 
-                <ThemedView style={styles.resultsBlock}>
-                  <ThemedText type="defaultSemiBold">模範解答（最大5件）</ThemedText>
-                  {result.missingSuggested.length === 0 ? (
-                    <ThemedText>なし</ThemedText>
+              {/* 回答チップ */}
+              <ThemedView style={styles.section}>
+                <ThemedText type="subtitle">回答</ThemedText>
+                <View style={styles.chipsRow}>
+                  {items.length === 0 ? (
+                    <ThemedText style={{ color: icon }}>まだ追加されていません</ThemedText>
                   ) : (
-                    result.missingSuggested.map((a) => <ThemedText key={a}>- {a}</ThemedText>)
+                    items.map((item) => {
+                      const traced = traceByNorm.get(item.norm);
+                      const practice = isPractice && !traced ? practiceGrades[item.norm] : undefined;
+                      const tone = traced
+                        ? chipToneColor(traced.kind)
+                        : practice
+                          ? chipToneColor(practice.credited ? 'exact' : 'none')
+                          : null;
+                      return (
+                        <Pressable
+                          key={item.norm}
+                          onPress={() => remove(item.norm)}
+                          style={({ pressed }) => [
+                            styles.chip,
+                            { borderColor: tone ?? icon },
+                            tone ? { borderWidth: 2 } : null,
+                            pressed ? { opacity: 0.8 } : null,
+                          ]}>
+                          <ThemedText style={styles.chipText}>{item.raw}</ThemedText>
+                          <ThemedText style={styles.chipX} lightColor={tint} darkColor={tint}>
+                            ×
+                          </ThemedText>
+                        </Pressable>
+                      );
+                    })
                   )}
-                </ThemedView>
-
-                <View style={styles.resultsBlock}>
-                  <Pressable
-                    onPress={openExplain}
-                    style={({ pressed }) => [
-                      styles.secondaryButton,
-                      { borderColor: tint },
-                      pressed ? { opacity: 0.85 } : null,
-                    ]}>
-                    <ThemedText style={styles.secondaryButtonText} lightColor={tint} darkColor={tint}>
-                      解説
-                    </ThemedText>
-                  </Pressable>
                 </View>
+                <ThemedText type="default" lightColor={icon} darkColor={icon}>
+                  チップをタップすると削除できます（重複/上限は正規化後に判定）
+                </ThemedText>
+                {isPractice ? (
+                  <ThemedText type="default" lightColor={icon} darkColor={icon}>
+                    練習: 追加するとすぐ判定（緑=正解 / 赤=不正解。赤は枠に数えません）
+                  </ThemedText>
+                ) : null}
               </ThemedView>
-            </Animated.View>
-          ) : null}
+
+              {/* 結果 */}
+              {result ? (
+                <Animated.View
+                  style={{
+                    opacity: resultOpacity,
+                    transform: [{ scale: resultAnim }],
+                  }}>
+                  <ThemedView style={styles.section}>
+                    <ThemedText type="subtitle">結果</ThemedText>
+
+                    <Animated.View
+                      style={[
+                        styles.resultSummaryBox,
+                        {
+                          backgroundColor: successFlash.interpolate({
+                            inputRange: [0, 1],
+                            outputRange: ['rgba(0,0,0,0)', 'rgba(46, 204, 113, 0.18)'],
+                          }),
+                          borderColor: icon,
+                        },
+                      ]}>
+                      {finalScore >= targetCount ? (
+                        <Animated.View
+                          pointerEvents="none"
+                          style={{
+                            position: 'absolute',
+                            top: -8,
+                            right: -8,
+                            opacity: celebrateAnim.interpolate({
+                              inputRange: [0, 1],
+                              outputRange: [0, 1],
+                            }),
+                            transform: [
+                              {
+                                scale: celebrateAnim.interpolate({
+                                  inputRange: [0, 1],
+                                  outputRange: [0.6, 1.1],
+                                }),
+                              },
+                            ],
+                          }}>
+                          <ThemedText style={styles.celebrateBadge}>🎉</ThemedText>
+                        </Animated.View>
+                      ) : null}
+                      <ThemedText>正解数: {result.score}</ThemedText>
+                      {hintsUsed > 0 ? (
+                        <ThemedText>
+                          スコア: {finalScore}（ヒント {hintsUsed}回 -{hintsUsed * HINT_COST}）
+                        </ThemedText>
+                      ) : null}
+                      {isTimed && timedOutcome ? (
+                        <ThemedText type="defaultSemiBold">
+                          スコア: {timedOutcome.points}点（残り {formatDuration(timedOutcome.remainingMs)}）
+                        </ThemedText>
+                      ) : null}
+                      {isExhaustive ? (
+                        <ThemedText>
+                          {completionMs != null ? `クリアタイム: ${formatDuration(completionMs)}` : 'ギブアップ'}
+                        </ThemedText>
+                      ) : (
+                        <ThemedText>
+                          不足数（{targetCount} - 入力数）: {Math.max(0, targetCount - slotsUsed)}
+                        </ThemedText>
+                      )}
+                    </Animated.View>
+
+                    <ThemedView style={styles.resultsBlock}>
+                      <ThemedText type="defaultSemiBold">不正解</ThemedText>
+                      {result.wrong.length === 0 ? (
+                        <ThemedText>なし</ThemedText>
+                      ) : (
+                        result.wrong.map((w, i) => <ThemedText key={`${w}-${i}`}>- {w}</ThemedText>)
+                      )}
+                    </ThemedView>
+
+                    {result.nearMiss.length > 0 ? (
+                      <ThemedView style={styles.resultsBlock}>
+                        <ThemedText type="defaultSemiBold">惜しい</ThemedText>
+                        {result.nearMiss.map((m, i) => (
+                          <ThemedText key={`${m.input}-${i}`}>
+                            - {m.input} → {m.answer}
+                          </ThemedText>
+                        ))}
+                      </ThemedView>
+                    ) : null}
+
+                    {isExhaustive ? (
+                      <ThemedView style={styles.resultsBlock}>
+                        <ThemedText type="defaultSemiBold">残りの答え（{result.missing.length}件）</ThemedText>
+                        {result.missing.length === 0 ? (
+                          <ThemedText>なし</ThemedText>
+                        ) : (
+                          result.missing.map((a) => <ThemedText key={a}>- {a}</ThemedText>)
+                        )}
+                      </ThemedView>
+                    ) : (
+                      <ThemedView style={styles.resultsBlock}>
+                        <ThemedText type="defaultSemiBold">模範解答（最大5件）</ThemedText>
+                        {result.missingSuggested.length === 0 ? (
+                          <ThemedText>なし</ThemedText>
+                        ) : (
+                          result.missingSuggested.map((a) => <ThemedText key={a}>- {a}</ThemedText>)
+                        )}
+                      </ThemedView>
+                    )}
+
+                    <View style={styles.resultsBlock}>
+                      <Pressable
+                        onPress={openExplain}
+                        style={({ pressed }) => [
+                          styles.secondaryButton,
+                          { borderColor: tint },
+                          pressed ? { opacity: 0.85 } : null,
+                        ]}>
+                        <ThemedText style={styles.secondaryButtonText} lightColor={tint} darkColor={tint}>
+                          解説
+                        </ThemedText>
+                      </Pressable>
+                    </View>
+                  </ThemedView>
+                </Animated.View>
+              ) : null}
+            </>
+          )}
         </ScrollView>
 
-        {/* [B] Fixed footer (送信ボタンのみ) */}
-        <View
-          onLayout={(e) => setFooterHeight(e.nativeEvent.layout.height)}
-          style={[
-            styles.footer,
-            {
-              minHeight: FOOTER_MIN_HEIGHT,
-              paddingBottom: footerPaddingBottom,
-              borderColor: icon,
-              backgroundColor: background,
-            },
-          ]}>
-          <Pressable
-            onPress={submit}
-            style={({ pressed }) => [
-              styles.submitButton,
-              { borderColor: tint },
-              pressed ? { opacity: 0.85 } : null,
+        {/* [B] Fixed footer (送信ボタンのみ。pairs / 復習はカード内で回答する) */}
+        {pairsDataset || reviewCards || multiplayerDataset ? null : (
+          <View
+            onLayout={(e) => setFooterHeight(e.nativeEvent.layout.height)}
+            style={[
+              styles.footer,
+              {
+                minHeight: FOOTER_MIN_HEIGHT,
+                paddingBottom: footerPaddingBottom,
+                borderColor: icon,
+                backgroundColor: background,
+              },
             ]}>
-            <ThemedText style={styles.submitButtonText} lightColor={tint} darkColor={tint}>
-              送信
-            </ThemedText>
-          </Pressable>
-        </View>
+            <Pressable
+              onPress={isExhaustive ? giveUp : submit}
+              style={({ pressed }) => [
+                styles.submitButton,
+                { borderColor: tint },
+                pressed ? { opacity: 0.85 } : null,
+              ]}>
+              <ThemedText style={styles.submitButtonText} lightColor={tint} darkColor={tint}>
+                {isExhaustive ? 'ギブアップ' : '送信'}
+              </ThemedText>
+            </Pressable>
+          </View>
+        )}
       </SafeAreaView>
     </KeyboardAvoidingView>
   );
@@ -635,9 +1661,24 @@ const styles = StyleSheet.create({
   cardExample: {
     fontSize: 12,
   },
+  hintRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+  },
+  hintText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
   section: {
     gap: 10,
   },
+  restoreBox: {
+    borderWidth: 1,
+    borderRadius: 14,
+    padding: 12,
+    gap: 8,
+  },
   categoryRow: {
     flexDirection: 'row',
     flexWrap: 'wrap',
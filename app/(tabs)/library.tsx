@@ -0,0 +1,276 @@
+import { useCallback, useMemo, useState } from 'react';
+import { Pressable, ScrollView, StyleSheet, TextInput, View } from 'react-native';
+import { useFocusEffect } from '@react-navigation/native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { router } from 'expo-router';
+
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { CATEGORIES, THEMES } from '@/datasets/themes';
+import { useThemeColor } from '@/hooks/use-theme-color';
+import { loadFavorites, toggleFavorite } from '@/src/lib/favorites';
+import { loadStats, rate, type PlayStatsV1 } from '@/src/lib/records';
+import {
+  filterThemes,
+  playStatus,
+  SIZE_FILTERS,
+  sizeFilterLabel,
+  STATUS_FILTERS,
+  statusFilterLabel,
+  themeSize,
+  type SizeFilter,
+  type StatusFilter,
+} from '@/src/lib/theme-library';
+
+type ChipProps = {
+  label: string;
+  selected: boolean;
+  onPress: () => void;
+};
+
+function FilterChip({ label, selected, onPress }: ChipProps) {
+  const tint = useThemeColor({}, 'tint');
+  const icon = useThemeColor({}, 'icon');
+  return (
+    <Pressable
+      onPress={onPress}
+      style={({ pressed }) => [
+        styles.chip,
+        { borderColor: selected ? tint : icon },
+        pressed ? { opacity: 0.85 } : null,
+      ]}>
+      <ThemedText
+        style={styles.chipText}
+        lightColor={selected ? tint : undefined}
+        darkColor={selected ? tint : undefined}>
+        {label}
+      </ThemedText>
+    </Pressable>
+  );
+}
+
+/**
+ * テーマ一覧（探して選ぶ）
+ * - タイトル検索（正規化して比較）/ カテゴリ / 答えの数 / プレイ状況（記録）/ お気に入り で絞り込み
+ * - 「遊ぶ」で出題画面をそのテーマで開く（themeId を渡す）
+ */
+export default function LibraryScreen() {
+  const tint = useThemeColor({}, 'tint');
+  const icon = useThemeColor({}, 'icon');
+  const textColor = useThemeColor({}, 'text');
+
+  const [stats, setStats] = useState<PlayStatsV1 | null>(null);
+  const [favorites, setFavorites] = useState<string[]>([]);
+  const [query, setQuery] = useState('');
+  const [categoryId, setCategoryId] = useState<string | null>(null);
+  const [size, setSize] = useState<SizeFilter>('all');
+  const [status, setStatus] = useState<StatusFilter>('all');
+  const [favoritesOnly, setFavoritesOnly] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  // 出題画面で遊んだ結果を反映するため、表示のたびに読み直す
+  const refresh = useCallback(() => {
+    void (async () => {
+      const [s, f] = await Promise.all([loadStats(), loadFavorites()]);
+      setStats(s);
+      setFavorites(f);
+    })();
+  }, []);
+
+  useFocusEffect(refresh);
+
+  const themes = useMemo(
+    () => filterThemes(THEMES, { query, categoryId, size, status, favoritesOnly }, stats, favorites),
+    [query, categoryId, size, status, favoritesOnly, stats, favorites]
+  );
+
+  const onToggleFavorite = (themeId: string) => {
+    void (async () => {
+      try {
+        setFavorites(await toggleFavorite(themeId));
+        setMessage(null);
+      } catch {
+        setMessage('お気に入りを保存できませんでした');
+      }
+    })();
+  };
+
+  const play = (themeId: string) => {
+    // at: 同じテーマをもう一度選んでも出題画面が開き直すように
+    router.navigate({ pathname: '/', params: { themeId, at: String(Date.now()) } });
+  };
+
+  return (
+    <SafeAreaView style={styles.safe} edges={['top', 'left', 'right']}>
+      <ScrollView contentContainerStyle={styles.container} keyboardShouldPersistTaps="handled">
+        <ThemedView style={styles.section}>
+          <ThemedText type="title">テーマ</ThemedText>
+          <TextInput
+            value={query}
+            onChangeText={setQuery}
+            placeholder="タイトルで検索"
+            placeholderTextColor={icon}
+            style={[styles.input, { borderColor: icon, color: textColor }]}
+            autoCapitalize="none"
+            autoCorrect={false}
+            returnKeyType="search"
+          />
+        </ThemedView>
+
+        <ThemedView style={styles.section}>
+          <View style={styles.chipsRow}>
+            <FilterChip label="すべて" selected={categoryId == null} onPress={() => setCategoryId(null)} />
+            {CATEGORIES.map((c) => (
+              <FilterChip
+                key={c.id}
+                label={c.title}
+                selected={c.id === categoryId}
+                onPress={() => setCategoryId(c.id)}
+              />
+            ))}
+          </View>
+          <View style={styles.chipsRow}>
+            {SIZE_FILTERS.map((f) => (
+              <FilterChip key={f} label={sizeFilterLabel(f)} selected={f === size} onPress={() => setSize(f)} />
+            ))}
+          </View>
+          <View style={styles.chipsRow}>
+            {STATUS_FILTERS.map((f) => (
+              <FilterChip key={f} label={statusFilterLabel(f)} selected={f === status} onPress={() => setStatus(f)} />
+            ))}
+            <FilterChip label="★ お気に入り" selected={favoritesOnly} onPress={() => setFavoritesOnly((v) => !v)} />
+          </View>
+        </ThemedView>
+
+        {message ? (
+          <ThemedView style={[styles.message, { borderColor: icon }]}>
+            <ThemedText>{message}</ThemedText>
+          </ThemedView>
+        ) : null}
+
+        <ThemedView style={styles.section}>
+          <ThemedText lightColor={icon} darkColor={icon}>
+            {themes.length}件
+          </ThemedText>
+          {themes.length === 0 ? <ThemedText>条件に合うテーマがありません</ThemedText> : null}
+          {themes.map((t) => {
+            const plays = stats?.playsByTheme[t.id] ?? 0;
+            const perfects = stats?.perfectsByTheme[t.id] ?? 0;
+            const st = playStatus(t.id, stats);
+            const favorite = favorites.includes(t.id);
+            const n = themeSize(t);
+            return (
+              <ThemedView key={t.id} style={[styles.themeRow, { borderColor: icon }]}>
+                <View style={styles.themeHeader}>
+                  <ThemedText type="defaultSemiBold" style={styles.themeTitle}>
+                    {t.title}
+                  </ThemedText>
+                  <Pressable onPress={() => onToggleFavorite(t.id)} hitSlop={8}>
+                    <ThemedText
+                      style={styles.star}
+                      lightColor={favorite ? tint : icon}
+                      darkColor={favorite ? tint : icon}>
+                      {favorite ? '★' : '☆'}
+                    </ThemedText>
+                  </Pressable>
+                </View>
+                <ThemedText style={styles.meta} lightColor={icon} darkColor={icon}>
+                  {`${t.categoryTitle}・${t.dataset.kind === 'pairs' ? `${n}枚` : `${n}個`}・`}
+                  {st === 'unplayed'
+                    ? '未プレイ'
+                    : `実施 ${plays} / 成功 ${perfects}（${(rate(perfects, plays) * 100).toFixed(0)}%）`}
+                </ThemedText>
+                <View style={styles.actionsRow}>
+                  <Pressable
+                    onPress={() => play(t.id)}
+                    style={({ pressed }) => [
+                      styles.playButton,
+                      { borderColor: tint },
+                      pressed ? { opacity: 0.85 } : null,
+                    ]}>
+                    <ThemedText style={styles.playButtonText} lightColor={tint} darkColor={tint}>
+                      遊ぶ
+                    </ThemedText>
+                  </Pressable>
+                </View>
+              </ThemedView>
+            );
+          })}
+        </ThemedView>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  safe: { flex: 1 },
+  container: {
+    padding: 16,
+    gap: 16,
+  },
+  section: {
+    gap: 10,
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 16,
+  },
+  chipsRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    borderWidth: 1,
+    borderRadius: 999,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  themeRow: {
+    borderWidth: 1,
+    borderRadius: 14,
+    padding: 12,
+    gap: 6,
+  },
+  themeHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    gap: 12,
+  },
+  themeTitle: {
+    flex: 1,
+  },
+  star: {
+    fontSize: 22,
+  },
+  meta: {
+    fontSize: 13,
+  },
+  actionsRow: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+  },
+  playButton: {
+    borderWidth: 2,
+    borderRadius: 12,
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+  },
+  playButtonText: {
+    fontSize: 14,
+    fontWeight: '700',
+  },
+  message: {
+    borderWidth: 1,
+    padding: 12,
+    borderRadius: 12,
+  },
+});
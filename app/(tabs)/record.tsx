@@ -1,28 +1,154 @@
-import { useCallback, useState } from 'react';
-import { ScrollView, StyleSheet, View } from 'react-native';
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { Pressable, ScrollView, StyleSheet, View } from 'react-native';
 import { useFocusEffect } from '@react-navigation/native';
 import { SafeAreaView } from 'react-native-safe-area-context';
+import { router } from 'expo-router';
 
+import { BackupPanel } from '@/components/backup-panel';
+import { BarChart } from '@/components/bar-chart';
+import { DailyStrip } from '@/components/daily-strip';
+import { GoalStatus } from '@/components/goal-status';
 import { ThemedText } from '@/components/themed-text';
 import { ThemedView } from '@/components/themed-view';
 import { THEMES } from '@/datasets/themes';
-import { loadStats, rate, type PlayStatsV1 } from '@/src/lib/records';
+import { dailyStreak, localDateKey } from '@/src/lib/daily';
+import { useThemeColor } from '@/hooks/use-theme-color';
+import {
+  formatMinuteOfDay,
+  GOAL_AMOUNTS,
+  GOAL_KINDS,
+  goalKindLabel,
+  goalProgress,
+  goalUnit,
+  loadGoalSettings,
+  longestStudyStreak,
+  REMINDER_STEP_MINUTES,
+  studyStreak,
+  subscribeGoalSettings,
+  updateGoalSettings,
+  type GoalKind,
+  type GoalSettingsV1,
+} from '@/src/lib/goals';
+import {
+  headToHead,
+  loadMultiplayerStore,
+  playerSummaries,
+  subscribeMultiplayerStore,
+  type MatchRecord,
+} from '@/src/lib/multiplayer';
+import { summarizeThemes, weeklyActivity } from '@/src/lib/play-history';
+import {
+  loadPlayLog,
+  loadStats,
+  parseTimedRecordKey,
+  rate,
+  subscribeRecords,
+  type PlayLogEntry,
+  type PlayStatsV1,
+} from '@/src/lib/records';
+import { ensureReminderPermission, refreshGoalReminders, remindersSupported } from '@/src/lib/reminders';
+import { TARGET_OPTIONS, targetLabel } from '@/src/lib/target';
+import { formatDuration, formatShortDate } from '@/src/lib/time';
+
+// 目標数の表示順（5 → 10 → 20 → 全部）
+const TARGET_KEY_ORDER = TARGET_OPTIONS.map(String);
+
+function sortTargetKeys(keys: string[]): string[] {
+  return [...keys].sort((a, b) => TARGET_KEY_ORDER.indexOf(a) - TARGET_KEY_ORDER.indexOf(b));
+}
+
+// 時間制限の記録キー（"90:10" など）を 秒 → 目標数 の順に並べる
+function sortTimedKeys(keys: string[]): string[] {
+  return [...keys].sort((a, b) => {
+    const pa = parseTimedRecordKey(a);
+    const pb = parseTimedRecordKey(b);
+    if (!pa || !pb) return a.localeCompare(b);
+    return pa.seconds - pb.seconds || TARGET_KEY_ORDER.indexOf(pa.target) - TARGET_KEY_ORDER.indexOf(pb.target);
+  });
+}
 
 export default function RecordScreen() {
+  const icon = useThemeColor({}, 'icon');
+  const tint = useThemeColor({}, 'tint');
+
   const [stats, setStats] = useState<PlayStatsV1 | null>(null);
+  const [log, setLog] = useState<PlayLogEntry[]>([]);
+  const [matches, setMatches] = useState<MatchRecord[]>([]);
+  const [goalSettings, setGoalSettings] = useState<GoalSettingsV1 | null>(null);
+  const [reminderMessage, setReminderMessage] = useState<string | null>(null);
 
   const refresh = useCallback(() => {
     void (async () => {
-      const s = await loadStats();
+      const [s, l, m, g] = await Promise.all([loadStats(), loadPlayLog(), loadMultiplayerStore(), loadGoalSettings()]);
       setStats(s);
+      setLog(l);
+      setMatches(m.matches);
+      setGoalSettings(g);
     })();
   }, []);
 
+  // 目標・リマインダーを保存して、通知の予定を組み直す
+  // （change は保存済みの設定から作るので、続けて押しても前の変更を消さない）
+  const changeGoalSettings = async (change: (current: GoalSettingsV1) => Omit<GoalSettingsV1, 'updatedAt'>) => {
+    try {
+      setGoalSettings(await updateGoalSettings((current) => ({ ...change(current), updatedAt: Date.now() })));
+    } catch {
+      setReminderMessage('目標の設定を保存できませんでした');
+      return;
+    }
+    await refreshGoalReminders();
+  };
+
+  // 種類を変えたら、その種類の選択肢の2番目（プレイ数なら3回）にする
+  const changeGoalKind = (kind: GoalKind) => {
+    if (!goalSettings || kind === goalSettings.goal.kind) return;
+    void changeGoalSettings((s) => ({ goal: { kind, amount: GOAL_AMOUNTS[kind][1] }, reminder: s.reminder }));
+  };
+
+  const toggleReminder = async () => {
+    if (!goalSettings) return;
+    const enabled = !goalSettings.reminder.enabled;
+    try {
+      if (enabled && !(await ensureReminderPermission())) {
+        setReminderMessage('通知が許可されていません。端末の設定から通知を許可してください');
+        return;
+      }
+    } catch {
+      setReminderMessage('通知の許可を確かめられませんでした');
+      return;
+    }
+    setReminderMessage(null);
+    await changeGoalSettings((s) => ({ goal: s.goal, reminder: { ...s.reminder, enabled } }));
+  };
+
+  const shiftReminderTime = (minutes: number) => {
+    if (!goalSettings) return;
+    void changeGoalSettings((s) => ({
+      goal: s.goal,
+      reminder: { ...s.reminder, minuteOfDay: (s.reminder.minuteOfDay + minutes + 1440) % 1440 },
+    }));
+  };
+
   useFocusEffect(refresh);
+  // 開いている間に保存されたもの（プレイ/みんなで/目標/バックアップの読み込み）もすぐ出す
+  useEffect(() => {
+    const unsubscribes = [subscribeRecords(refresh), subscribeMultiplayerStore(refresh), subscribeGoalSettings(refresh)];
+    return () => unsubscribes.forEach((unsubscribe) => unsubscribe());
+  }, [refresh]);
 
   const plays = stats?.plays ?? 0;
   const perfects = stats?.perfects ?? 0;
   const overallRate = rate(perfects, plays);
+  const targetKeys = sortTargetKeys(Object.keys(stats?.playsByTarget ?? {}));
+  const dailyResults = stats?.dailyResults ?? {};
+  const dailyDates = Object.keys(dailyResults);
+  const today = localDateKey();
+  const summaries = useMemo(() => summarizeThemes(log), [log]);
+  const weeks = useMemo(() => weeklyActivity(log, today), [log, today]);
+  const goal = goalSettings?.goal;
+  const progress = useMemo(() => (goal ? goalProgress(log, goal, today) : null), [log, goal, today]);
+  const streak = useMemo(() => studyStreak(log, today), [log, today]);
+  const longestStreak = useMemo(() => longestStudyStreak(log), [log]);
 
   return (
     <SafeAreaView style={styles.safe} edges={['top', 'left', 'right']}>
@@ -34,23 +160,251 @@ export default function RecordScreen() {
           <ThemedText>成功率: {(overallRate * 100).toFixed(1)}%</ThemedText>
         </ThemedView>
 
+        {goalSettings && progress ? (
+          <ThemedView style={styles.section}>
+            <ThemedText type="subtitle">今日の目標</ThemedText>
+            <GoalStatus progress={progress} streak={streak} />
+            <ThemedText style={styles.targetLine} lightColor={icon} darkColor={icon}>
+              {`最長の連続: ${longestStreak}日`}
+            </ThemedText>
+
+            <View style={styles.chipRow}>
+              {GOAL_KINDS.map((kind) => {
+                const selected = kind === goalSettings.goal.kind;
+                return (
+                  <Pressable
+                    key={kind}
+                    onPress={() => changeGoalKind(kind)}
+                    style={({ pressed }) => [
+                      styles.chip,
+                      { borderColor: selected ? tint : icon },
+                      pressed ? { opacity: 0.85 } : null,
+                    ]}>
+                    <ThemedText
+                      style={styles.chipText}
+                      lightColor={selected ? tint : undefined}
+                      darkColor={selected ? tint : undefined}>
+                      {goalKindLabel(kind)}
+                    </ThemedText>
+                  </Pressable>
+                );
+              })}
+            </View>
+            <View style={styles.chipRow}>
+              {GOAL_AMOUNTS[goalSettings.goal.kind].map((amount) => {
+                const selected = amount === goalSettings.goal.amount;
+                return (
+                  <Pressable
+                    key={amount}
+                    onPress={() => void changeGoalSettings((s) => ({ goal: { ...s.goal, amount }, reminder: s.reminder }))}
+                    style={({ pressed }) => [
+                      styles.chip,
+                      { borderColor: selected ? tint : icon },
+                      pressed ? { opacity: 0.85 } : null,
+                    ]}>
+                    <ThemedText
+                      style={styles.chipText}
+                      lightColor={selected ? tint : undefined}
+                      darkColor={selected ? tint : undefined}>
+                      {`${amount}${goalUnit(goalSettings.goal.kind)}`}
+                    </ThemedText>
+                  </Pressable>
+                );
+              })}
+            </View>
+
+            {remindersSupported() ? (
+              <>
+                <View style={styles.themeHeader}>
+                  <ThemedText>リマインダー（目標がまだの日だけ）</ThemedText>
+                  <Pressable
+                    onPress={() => void toggleReminder()}
+                    style={({ pressed }) => [
+                      styles.chip,
+                      { borderColor: goalSettings.reminder.enabled ? tint : icon },
+                      pressed ? { opacity: 0.85 } : null,
+                    ]}>
+                    <ThemedText
+                      style={styles.chipText}
+                      lightColor={goalSettings.reminder.enabled ? tint : undefined}
+                      darkColor={goalSettings.reminder.enabled ? tint : undefined}>
+                      {goalSettings.reminder.enabled ? 'オン' : 'オフ'}
+                    </ThemedText>
+                  </Pressable>
+                </View>
+                {goalSettings.reminder.enabled ? (
+                  <View style={styles.chipRow}>
+                    <Pressable
+                      onPress={() => shiftReminderTime(-REMINDER_STEP_MINUTES)}
+                      style={({ pressed }) => [styles.chip, { borderColor: icon }, pressed ? { opacity: 0.85 } : null]}>
+                      <ThemedText style={styles.chipText}>−</ThemedText>
+                    </Pressable>
+                    <ThemedText type="defaultSemiBold">{formatMinuteOfDay(goalSettings.reminder.minuteOfDay)}</ThemedText>
+                    <Pressable
+                      onPress={() => shiftReminderTime(REMINDER_STEP_MINUTES)}
+                      style={({ pressed }) => [styles.chip, { borderColor: icon }, pressed ? { opacity: 0.85 } : null]}>
+                      <ThemedText style={styles.chipText}>＋</ThemedText>
+                    </Pressable>
+                  </View>
+                ) : null}
+                {reminderMessage ? (
+                  <ThemedView style={[styles.message, { borderColor: icon }]}>
+                    <ThemedText>{reminderMessage}</ThemedText>
+                  </ThemedView>
+                ) : null}
+              </>
+            ) : (
+              <ThemedText style={styles.targetLine} lightColor={icon} darkColor={icon}>
+                リマインダーはアプリ版（iOS / Android）で使えます
+              </ThemedText>
+            )}
+          </ThemedView>
+        ) : null}
+
+        <ThemedView style={styles.section}>
+          <ThemedText type="subtitle">週ごとのプレイ</ThemedText>
+          <BarChart
+            bars={weeks.map((w) => ({ key: w.weekStart, value: w.plays, label: formatShortDate(w.weekStart) }))}
+            formatValue={(v) => String(v)}
+          />
+          <ThemedText style={styles.targetLine} lightColor={icon} darkColor={icon}>
+            {`今週: ${weeks[weeks.length - 1]?.plays ?? 0}回（月曜はじまり）`}
+          </ThemedText>
+        </ThemedView>
+
+        {dailyDates.length > 0 ? (
+          <ThemedView style={styles.section}>
+            <ThemedText type="subtitle">今日のお題</ThemedText>
+            <DailyStrip results={dailyResults} today={today} />
+            <ThemedText>
+              {`遊んだ日: ${dailyDates.length}日 / 全問正解: ${dailyDates.filter((d) => dailyResults[d].perfect).length}日`}
+            </ThemedText>
+            <ThemedText>{`連続: ${dailyStreak(new Set(dailyDates), today)}日`}</ThemedText>
+          </ThemedView>
+        ) : null}
+
+        {matches.length > 0 ? (
+          <ThemedView style={styles.section}>
+            <ThemedText type="subtitle">みんなで</ThemedText>
+            <ThemedText>試合数: {matches.length}</ThemedText>
+            {playerSummaries(matches).map((p) => (
+              <View key={p.name} style={styles.themeHeader}>
+                <ThemedText>{p.name}</ThemedText>
+                <ThemedText>{`${p.matches}試合 / 1位 ${p.wins}回 / 合計 ${p.points}点`}</ThemedText>
+              </View>
+            ))}
+            <ThemedText type="defaultSemiBold">対戦成績</ThemedText>
+            {headToHead(matches).map((h) => (
+              <ThemedText key={`${h.a}\n${h.b}`} style={styles.targetLine}>
+                {`- ${h.a} vs ${h.b}: ${h.aWins}勝 ${h.bWins}敗`}
+                {h.draws > 0 ? ` ${h.draws}分` : ''}
+              </ThemedText>
+            ))}
+          </ThemedView>
+        ) : null}
+
+        {targetKeys.length > 0 ? (
+          <ThemedView style={styles.section}>
+            <ThemedText type="subtitle">目標数別</ThemedText>
+            {targetKeys.map((k) => {
+              const p = stats?.playsByTarget?.[k] ?? 0;
+              const perf = stats?.perfectsByTarget?.[k] ?? 0;
+              return (
+                <View key={k} style={styles.themeHeader}>
+                  <ThemedText>
+                    {targetLabel(k)}: 実施 {p} / 成功 {perf}
+                  </ThemedText>
+                  <ThemedText>{(rate(perf, p) * 100).toFixed(1)}%</ThemedText>
+                </View>
+              );
+            })}
+          </ThemedView>
+        ) : null}
+
         <ThemedView style={styles.section}>
           <ThemedText type="subtitle">テーマ別</ThemedText>
           {THEMES.map((t) => {
             const p = stats?.playsByTheme?.[t.id] ?? 0;
             const perf = stats?.perfectsByTheme?.[t.id] ?? 0;
             const r = rate(perf, p);
+            const byTarget = stats?.playsByThemeTarget?.[t.id] ?? {};
+            const perfByTarget = stats?.perfectsByThemeTarget?.[t.id] ?? {};
+            const completions = stats?.completionsByTheme?.[t.id] ?? 0;
+            const bestMs = stats?.bestCompletionMsByTheme?.[t.id];
+            const lastMs = stats?.lastCompletionMsByTheme?.[t.id];
+            const timedPlays = stats?.timedPlaysByTheme?.[t.id] ?? {};
+            const timedBests = stats?.timedBestByTheme?.[t.id] ?? {};
+            const practicePlays = stats?.practicePlaysByTheme?.[t.id] ?? {};
+            const practicePerfects = stats?.practicePerfectsByTheme?.[t.id] ?? {};
+            const practiceMistakes = stats?.practiceMistakesByTheme?.[t.id] ?? 0;
+            const hints = stats?.hintsByTheme?.[t.id] ?? 0;
+            const hintedPlays = stats?.hintedPlaysByTheme?.[t.id] ?? 0;
+            const summary = summaries[t.id];
             return (
               <ThemedView key={t.id} style={styles.themeRow}>
-                <View style={styles.themeHeader}>
-                  <ThemedText type="defaultSemiBold">{t.title}</ThemedText>
+                <Pressable
+                  onPress={() => router.push({ pathname: '/theme-record', params: { themeId: t.id } })}
+                  style={({ pressed }) => [styles.themeHeader, pressed ? { opacity: 0.7 } : null]}>
+                  <ThemedText type="defaultSemiBold">{t.title} ›</ThemedText>
                   <ThemedText>{(r * 100).toFixed(1)}%</ThemedText>
-                </View>
+                </Pressable>
                 <ThemedText>実施: {p} / 成功: {perf}</ThemedText>
+                {summary ? (
+                  <ThemedText style={styles.targetLine}>
+                    {`- ベスト ${(summary.bestRate * 100).toFixed(0)}% / 平均 ${(summary.averageRate * 100).toFixed(0)}%`}
+                    {` / 最終 ${localDateKey(new Date(summary.lastPlayedAt))}`}
+                  </ThemedText>
+                ) : null}
+                {sortTargetKeys(Object.keys(byTarget)).map((k) => {
+                  const kPerf = perfByTarget[k] ?? 0;
+                  const kRate = (rate(kPerf, byTarget[k]) * 100).toFixed(1);
+                  return (
+                    <ThemedText key={k} style={styles.targetLine}>
+                      {`- ${targetLabel(k)}: 実施 ${byTarget[k]} / 成功 ${kPerf}（${kRate}%）`}
+                    </ThemedText>
+                  );
+                })}
+                {completions > 0 && bestMs != null ? (
+                  <ThemedText style={styles.targetLine}>
+                    {`- 全部言えた: ${completions}回 / ベスト ${formatDuration(bestMs)}`}
+                    {lastMs != null ? ` / 前回 ${formatDuration(lastMs)}` : ''}
+                  </ThemedText>
+                ) : null}
+                {sortTimedKeys(Object.keys(timedBests)).map((k) => {
+                  const parsed = parseTimedRecordKey(k);
+                  const best = timedBests[k];
+                  if (!parsed || !best) return null;
+                  return (
+                    <ThemedText key={k} style={styles.targetLine}>
+                      {`- 時間制限 ${parsed.seconds}秒・${targetLabel(parsed.target)}: ベスト ${best.points}点`}
+                      {`（正解 ${best.correct} / 残り ${formatDuration(best.remainingMs)}・実施 ${timedPlays[k] ?? 0}回）`}
+                    </ThemedText>
+                  );
+                })}
+                {sortTargetKeys(Object.keys(practicePlays)).map((k) => {
+                  const kPerf = practicePerfects[k] ?? 0;
+                  const kRate = (rate(kPerf, practicePlays[k]) * 100).toFixed(1);
+                  return (
+                    <ThemedText key={`practice-${k}`} style={styles.targetLine}>
+                      {`- 練習 ${targetLabel(k)}: 実施 ${practicePlays[k]} / 成功 ${kPerf}（${kRate}%）`}
+                    </ThemedText>
+                  );
+                })}
+                {practiceMistakes > 0 ? (
+                  <ThemedText style={styles.targetLine}>{`- 練習での不正解: ${practiceMistakes}回`}</ThemedText>
+                ) : null}
+                {hints > 0 ? (
+                  <ThemedText style={styles.targetLine}>{`- ヒント: ${hints}回（${hintedPlays}回のプレイで使用）`}</ThemedText>
+                ) : null}
               </ThemedView>
             );
           })}
         </ThemedView>
+
+        <ThemedView style={styles.section}>
+          <ThemedText type="subtitle">バックアップ</ThemedText>
+          <BackupPanel onImported={() => void refreshGoalReminders()} />
+        </ThemedView>
       </ScrollView>
     </SafeAreaView>
   );
@@ -69,12 +423,35 @@ const styles = StyleSheet.create({
     gap: 6,
     paddingVertical: 8,
   },
+  targetLine: {
+    fontSize: 14,
+  },
   themeHeader: {
     flexDirection: 'row',
     justifyContent: 'space-between',
     alignItems: 'center',
     gap: 12,
   },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    alignItems: 'center',
+    gap: 8,
+  },
+  chip: {
+    borderWidth: 1,
+    borderRadius: 999,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+  },
+  chipText: {
+    fontSize: 14,
+  },
+  message: {
+    borderWidth: 1,
+    padding: 12,
+    borderRadius: 12,
+  },
 });
 
 
@@ -0,0 +1,176 @@
+import { Stack, useLocalSearchParams } from 'expo-router';
+import { useEffect, useMemo, useState } from 'react';
+import { ScrollView, StyleSheet, View } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+
+import { BarChart } from '@/components/bar-chart';
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { THEMES } from '@/datasets/themes';
+import { useThemeColor } from '@/hooks/use-theme-color';
+import { localDateKey } from '@/src/lib/daily';
+import { mostMissedAnswers, scoreRate, scoreTrend, SCORE_TREND_PLAYS, summarizeThemes } from '@/src/lib/play-history';
+import { quizModeLabel } from '@/src/lib/quiz-mode';
+import {
+  loadPlayLog,
+  loadStats,
+  rate,
+  subscribeRecords,
+  type PlayLogEntry,
+  type PlayMode,
+  type PlayStatsV1,
+} from '@/src/lib/records';
+import { targetLabel } from '@/src/lib/target';
+import { formatShortDate } from '@/src/lib/time';
+
+/** 詳細に出す最近のプレイの数 */
+const RECENT_PLAYS = 10;
+
+function playModeLabel(mode: PlayMode): string {
+  return mode === 'pairs' ? 'カード' : quizModeLabel(mode);
+}
+
+/**
+ * テーマの記録（/theme-record?themeId=...）
+ * - 記録画面のテーマ名から開く
+ * - 1プレイごとのログ（records v2）から: スコアの推移（直近 SCORE_TREND_PLAYS 回）/ よく出なかった答え / 最近のプレイ
+ * - v1 から移したプレイはログが無いので、回数（上の集計）にだけ出る
+ */
+export default function ThemeRecordScreen() {
+  const icon = useThemeColor({}, 'icon');
+  const background = useThemeColor({}, 'background');
+
+  const params = useLocalSearchParams<{ themeId?: string }>();
+  const themeId = typeof params.themeId === 'string' ? params.themeId : '';
+  const theme = THEMES.find((t) => t.id === themeId);
+
+  const [stats, setStats] = useState<PlayStatsV1 | null>(null);
+  const [log, setLog] = useState<PlayLogEntry[]>([]);
+
+  // 記録が保存されるたびに読み直す
+  useEffect(() => {
+    const refresh = () => {
+      void (async () => {
+        const [s, l] = await Promise.all([loadStats(), loadPlayLog()]);
+        setStats(s);
+        setLog(l);
+      })();
+    };
+    refresh();
+    return subscribeRecords(refresh);
+  }, []);
+
+  const summary = useMemo(() => summarizeThemes(log)[themeId], [log, themeId]);
+  const trend = useMemo(() => scoreTrend(log, themeId), [log, themeId]);
+  const missed = useMemo(() => mostMissedAnswers(log, themeId), [log, themeId]);
+  const recent = useMemo(() => log.filter((e) => e.themeId === themeId).slice(-RECENT_PLAYS).reverse(), [log, themeId]);
+
+  const plays = stats?.playsByTheme[themeId] ?? 0;
+  const perfects = stats?.perfectsByTheme[themeId] ?? 0;
+
+  return (
+    <SafeAreaView style={[styles.safe, { backgroundColor: background }]}>
+      <Stack.Screen options={{ title: theme?.title ?? 'テーマの記録' }} />
+      <ScrollView contentContainerStyle={styles.container}>
+        <ThemedView style={styles.section}>
+          <ThemedText type="title">{theme?.title ?? themeId}</ThemedText>
+          <ThemedText>
+            実施: {plays} / 成功: {perfects}（{(rate(perfects, plays) * 100).toFixed(1)}%）
+          </ThemedText>
+          {summary ? (
+            <>
+              <ThemedText>
+                ベスト: {(summary.bestRate * 100).toFixed(0)}% / 平均: {(summary.averageRate * 100).toFixed(0)}%
+              </ThemedText>
+              <ThemedText>最後に遊んだ日: {localDateKey(new Date(summary.lastPlayedAt))}</ThemedText>
+            </>
+          ) : (
+            <ThemedText lightColor={icon} darkColor={icon}>
+              プレイごとの記録はまだありません
+            </ThemedText>
+          )}
+        </ThemedView>
+
+        {trend.length > 0 ? (
+          <ThemedView style={styles.section}>
+            <ThemedText type="subtitle">スコアの推移</ThemedText>
+            <BarChart
+              bars={trend.map((p) => ({
+                key: String(p.playedAt),
+                value: p.rate,
+                label: formatShortDate(localDateKey(new Date(p.playedAt))),
+                color: p.rate >= 1 ? '#2ecc71' : undefined,
+              }))}
+              max={1}
+              formatValue={(v) => `${Math.round(v * 100)}`}
+            />
+            <ThemedText style={styles.note} lightColor={icon} darkColor={icon}>
+              {`直近${SCORE_TREND_PLAYS}回まで・正解率（%）。緑は全問正解`}
+            </ThemedText>
+          </ThemedView>
+        ) : null}
+
+        {missed.length > 0 ? (
+          <ThemedView style={styles.section}>
+            <ThemedText type="subtitle">よく出なかった答え</ThemedText>
+            <ThemedText style={styles.note} lightColor={icon} darkColor={icon}>
+              目標数が一部だけの回は、ヒントを出した答えと惜しかった答えを数えます
+            </ThemedText>
+            {missed.map((m) => (
+              <View key={m.answer} style={styles.row}>
+                <ThemedText>{m.answer}</ThemedText>
+                <ThemedText>{m.count}回</ThemedText>
+              </View>
+            ))}
+          </ThemedView>
+        ) : null}
+
+        {recent.length > 0 ? (
+          <ThemedView style={styles.section}>
+            <ThemedText type="subtitle">最近のプレイ</ThemedText>
+            {recent.map((e) => (
+              <ThemedView key={e.playedAt} style={styles.playRow}>
+                <View style={styles.row}>
+                  <ThemedText type="defaultSemiBold">
+                    {`${localDateKey(new Date(e.playedAt))}・${playModeLabel(e.mode)}・${targetLabel(e.target)}`}
+                  </ThemedText>
+                  <ThemedText>{`${e.score} / ${e.asked}（${Math.round(scoreRate(e) * 100)}%）`}</ThemedText>
+                </View>
+                {e.wrong.length > 0 ? (
+                  <ThemedText style={styles.note}>{`まちがい: ${e.wrong.join('、')}`}</ThemedText>
+                ) : null}
+                {e.missing.length > 0 ? (
+                  <ThemedText style={styles.note}>{`出なかった: ${e.missing.join('、')}`}</ThemedText>
+                ) : null}
+              </ThemedView>
+            ))}
+          </ThemedView>
+        ) : null}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  safe: { flex: 1 },
+  container: {
+    padding: 16,
+    gap: 20,
+  },
+  section: {
+    gap: 10,
+  },
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    gap: 12,
+  },
+  playRow: {
+    gap: 4,
+    paddingVertical: 6,
+  },
+  note: {
+    fontSize: 13,
+  },
+});
@@ -0,0 +1,239 @@
+import { useState } from 'react';
+import { Pressable, StyleSheet, View } from 'react-native';
+
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { useThemeColor } from '@/hooks/use-theme-color';
+import {
+  applyBackup,
+  backupFileName,
+  collectBackup,
+  parseBackup,
+  previewImport,
+  serializeBackup,
+  type BackupFileV1,
+  type BackupSummary,
+  type ImportMode,
+  type ImportPreview,
+} from '@/src/lib/backup';
+import { exportBackupFile, pickBackupFile } from '@/src/lib/backup-file';
+import { localDateKey } from '@/src/lib/daily';
+import { goalKindLabel, goalUnit } from '@/src/lib/goals';
+
+type Props = {
+  /** 読み込んで保存したあと（画面の読み直しは保存の subscribe で起きる） */
+  onImported: () => void;
+};
+
+// プレビューの行: 見出しと値の取り出し
+const PREVIEW_ROWS: { label: string; value: (s: BackupSummary) => string }[] = [
+  { label: '実施回数', value: (s) => `${s.plays}（成功 ${s.perfects}）` },
+  { label: 'プレイごとの記録', value: (s) => `${s.loggedPlays}` },
+  { label: '今日のお題', value: (s) => `${s.dailyDays}日` },
+  { label: '復習カード', value: (s) => `${s.reviewCards}` },
+  { label: 'お気に入り', value: (s) => `${s.favorites}` },
+  { label: 'みんなで', value: (s) => `${s.matches}試合` },
+  { label: '目標', value: (s) => `${goalKindLabel(s.goal.kind)} ${s.goal.amount}${goalUnit(s.goal.kind)}` },
+];
+
+function errorMessage(e: unknown): string {
+  return e instanceof Error ? e.message : String(e);
+}
+
+/**
+ * 記録のバックアップ（記録画面の下）
+ * - 書き出す: 記録/復習/お気に入り/みんなで/目標をまとめた JSON を共有シート（web はダウンロード）で渡す
+ * - 読み込む: ファイルを選ぶ → 中身を確かめる → 今のデータと比べたプレビュー → 統合 or 置き換え
+ */
+export function BackupPanel({ onImported }: Props) {
+  const tint = useThemeColor({}, 'tint');
+  const icon = useThemeColor({}, 'icon');
+
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [pending, setPending] = useState<{ backup: BackupFileV1; preview: ImportPreview } | null>(null);
+
+  const run = async (task: () => Promise<void>) => {
+    if (busy) return;
+    setBusy(true);
+    setMessage(null);
+    try {
+      await task();
+    } catch (e) {
+      setMessage(errorMessage(e));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const exportBackup = () =>
+    run(async () => {
+      const backup = await collectBackup();
+      await exportBackupFile(backupFileName(localDateKey()), serializeBackup(backup));
+    });
+
+  const pickBackup = () =>
+    run(async () => {
+      setPending(null);
+      const text = await pickBackupFile();
+      if (text == null) return;
+      const backup = parseBackup(text);
+      const current = await collectBackup();
+      setPending({ backup, preview: previewImport(current.data, backup) });
+    });
+
+  const importBackup = (mode: ImportMode) =>
+    run(async () => {
+      if (!pending) return;
+      await applyBackup(pending.backup, mode);
+      setPending(null);
+      setMessage(mode === 'merge' ? 'バックアップを今のデータに統合しました' : 'バックアップで置き換えました');
+      onImported();
+    });
+
+  return (
+    <View style={styles.wrap}>
+      <ThemedText style={styles.note} lightColor={icon} darkColor={icon}>
+        機種変更や再インストールの前に書き出しておくと、あとで読み込んで戻せます（途中のプレイは含みません）
+      </ThemedText>
+      <View style={styles.actions}>
+        <Pressable
+          disabled={busy}
+          onPress={() => void exportBackup()}
+          style={({ pressed }) => [styles.button, { borderColor: tint }, pressed || busy ? { opacity: 0.7 } : null]}>
+          <ThemedText style={styles.buttonText} lightColor={tint} darkColor={tint}>
+            書き出す
+          </ThemedText>
+        </Pressable>
+        <Pressable
+          disabled={busy}
+          onPress={() => void pickBackup()}
+          style={({ pressed }) => [styles.button, { borderColor: tint }, pressed || busy ? { opacity: 0.7 } : null]}>
+          <ThemedText style={styles.buttonText} lightColor={tint} darkColor={tint}>
+            読み込む
+          </ThemedText>
+        </Pressable>
+      </View>
+
+      {pending ? (
+        <ThemedView style={[styles.preview, { borderColor: tint }]}>
+          <ThemedText type="defaultSemiBold">
+            {`${pending.backup.exportedAt > 0 ? localDateKey(new Date(pending.backup.exportedAt)) : '日付不明'} のバックアップ`}
+          </ThemedText>
+          <View style={styles.row}>
+            <ThemedText style={[styles.cell, styles.labelCell]} />
+            <ThemedText style={styles.cell} lightColor={icon} darkColor={icon}>
+              今
+            </ThemedText>
+            <ThemedText style={styles.cell} lightColor={icon} darkColor={icon}>
+              統合後
+            </ThemedText>
+            <ThemedText style={styles.cell} lightColor={icon} darkColor={icon}>
+              置き換え後
+            </ThemedText>
+          </View>
+          {PREVIEW_ROWS.map((r) => (
+            <View key={r.label} style={styles.row}>
+              <ThemedText style={[styles.cell, styles.labelCell]}>{r.label}</ThemedText>
+              <ThemedText style={styles.cell}>{r.value(pending.preview.current)}</ThemedText>
+              <ThemedText style={styles.cell}>{r.value(pending.preview.merged)}</ThemedText>
+              <ThemedText style={styles.cell}>{r.value(pending.preview.replaced)}</ThemedText>
+            </View>
+          ))}
+          <ThemedText style={styles.note} lightColor={icon} darkColor={icon}>
+            統合: 回数は足し合わせ、同じプレイは1回だけ数えます。置き換え: 今のデータは消えてファイルの内容になります
+          </ThemedText>
+          <View style={styles.actions}>
+            <Pressable
+              disabled={busy}
+              onPress={() => void importBackup('merge')}
+              style={({ pressed }) => [styles.button, { borderColor: tint }, pressed || busy ? { opacity: 0.7 } : null]}>
+              <ThemedText style={styles.buttonText} lightColor={tint} darkColor={tint}>
+                統合する
+              </ThemedText>
+            </Pressable>
+            <Pressable
+              disabled={busy}
+              onPress={() => void importBackup('replace')}
+              style={({ pressed }) => [styles.ghostButton, { borderColor: icon }, pressed || busy ? { opacity: 0.7 } : null]}>
+              <ThemedText style={styles.ghostButtonText}>置き換える</ThemedText>
+            </Pressable>
+            <Pressable
+              disabled={busy}
+              onPress={() => setPending(null)}
+              style={({ pressed }) => [styles.ghostButton, { borderColor: icon }, pressed ? { opacity: 0.7 } : null]}>
+              <ThemedText style={styles.ghostButtonText} lightColor={icon} darkColor={icon}>
+                やめる
+              </ThemedText>
+            </Pressable>
+          </View>
+        </ThemedView>
+      ) : null}
+
+      {message ? (
+        <ThemedView style={[styles.message, { borderColor: icon }]}>
+          <ThemedText>{message}</ThemedText>
+        </ThemedView>
+      ) : null}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  wrap: {
+    gap: 10,
+  },
+  note: {
+    fontSize: 13,
+  },
+  actions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 10,
+    alignItems: 'center',
+  },
+  button: {
+    borderWidth: 2,
+    borderRadius: 12,
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  buttonText: {
+    fontSize: 16,
+    fontWeight: '700',
+  },
+  ghostButton: {
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+  },
+  ghostButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  preview: {
+    borderWidth: 1,
+    borderRadius: 12,
+    padding: 12,
+    gap: 6,
+  },
+  row: {
+    flexDirection: 'row',
+    gap: 6,
+  },
+  cell: {
+    flex: 1,
+    fontSize: 13,
+  },
+  labelCell: {
+    flex: 1.4,
+  },
+  message: {
+    borderWidth: 1,
+    padding: 12,
+    borderRadius: 12,
+  },
+});
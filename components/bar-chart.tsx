@@ -0,0 +1,90 @@
+import { StyleSheet, View } from 'react-native';
+
+import { ThemedText } from '@/components/themed-text';
+import { useThemeColor } from '@/hooks/use-theme-color';
+
+export type Bar = {
+  key: string;
+  value: number;
+  /** under the bar (optional) */
+  label?: string;
+  /** bar color (default: tint) */
+  color?: string;
+};
+
+type Props = {
+  bars: Bar[];
+  /** value of a full-height bar (default: the largest value) */
+  max?: number;
+  /** shown above each bar */
+  formatValue?: (value: number) => string;
+  height?: number;
+};
+
+/**
+ * 棒グラフ（View だけで描く。グラフ用ライブラリは使わない）
+ * - 左が古い → 右が新しい。0 のときは細い線だけ出す
+ */
+export function BarChart({ bars, max, formatValue, height = 96 }: Props) {
+  const tint = useThemeColor({}, 'tint');
+  const icon = useThemeColor({}, 'icon');
+
+  const top = max ?? Math.max(0, ...bars.map((b) => b.value));
+
+  return (
+    <View style={styles.row}>
+      {bars.map((b) => {
+        const ratio = top > 0 ? Math.min(1, b.value / top) : 0;
+        return (
+          <View key={b.key} style={styles.column}>
+            {formatValue ? (
+              <ThemedText style={styles.value} lightColor={icon} darkColor={icon}>
+                {formatValue(b.value)}
+              </ThemedText>
+            ) : null}
+            <View style={[styles.track, { height }]}>
+              <View
+                style={[
+                  styles.bar,
+                  { height: Math.max(2, Math.round(ratio * height)), backgroundColor: b.value > 0 ? (b.color ?? tint) : icon },
+                ]}
+              />
+            </View>
+            {b.label ? (
+              <ThemedText style={styles.label} lightColor={icon} darkColor={icon}>
+                {b.label}
+              </ThemedText>
+            ) : null}
+          </View>
+        );
+      })}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    gap: 4,
+  },
+  column: {
+    flex: 1,
+    alignItems: 'center',
+    gap: 2,
+  },
+  track: {
+    width: '100%',
+    justifyContent: 'flex-end',
+  },
+  bar: {
+    width: '100%',
+    borderRadius: 4,
+  },
+  value: {
+    fontSize: 10,
+  },
+  label: {
+    fontSize: 10,
+  },
+});
@@ -0,0 +1,80 @@
+import { StyleSheet, View } from 'react-native';
+
+import { ThemedText } from '@/components/themed-text';
+import { useThemeColor } from '@/hooks/use-theme-color';
+import { dailyStreak, DAILY_STRIP_DAYS, recentDateKeys } from '@/src/lib/daily';
+import type { DailyResult } from '@/src/lib/records';
+
+type Props = {
+  /** date (YYYY-MM-DD) -> result, from PlayStatsV1.dailyResults */
+  results: Record<string, DailyResult>;
+  today: string;
+};
+
+/**
+ * デイリーの結果を直近 DAILY_STRIP_DAYS 日ぶん横に並べる（古い日 → 今日）
+ * - 遊んだ日はスコア、全問正解は緑、遊んでいない日は「-」
+ * - 連続日数は dailyStreak（今日まだ遊んでいなくても昨日までの連続は切らない）
+ */
+export function DailyStrip({ results, today }: Props) {
+  const tint = useThemeColor({}, 'tint');
+  const icon = useThemeColor({}, 'icon');
+
+  const days = recentDateKeys(today, DAILY_STRIP_DAYS);
+  const streak = dailyStreak(new Set(Object.keys(results)), today);
+
+  return (
+    <View style={styles.wrap}>
+      <View style={styles.row}>
+        {days.map((day) => {
+          const r = results[day];
+          const [, m, d] = day.split('-').map(Number);
+          const color = r?.perfect ? '#2ecc71' : r ? tint : icon;
+          return (
+            <View
+              key={day}
+              style={[styles.cell, { borderColor: color }, day === today ? { borderWidth: 2 } : null]}>
+              <ThemedText style={styles.date} lightColor={icon} darkColor={icon}>
+                {`${m}/${d}`}
+              </ThemedText>
+              <ThemedText style={styles.mark} lightColor={r ? color : icon} darkColor={r ? color : icon}>
+                {r ? `${r.score}/${r.target}` : '-'}
+              </ThemedText>
+            </View>
+          );
+        })}
+      </View>
+      <ThemedText style={styles.streak} lightColor={icon} darkColor={icon}>
+        {streak > 0 ? `連続 ${streak}日` : 'デイリーはまだ連続していません'}
+      </ThemedText>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  wrap: {
+    gap: 6,
+  },
+  row: {
+    flexDirection: 'row',
+    gap: 6,
+  },
+  cell: {
+    flex: 1,
+    borderWidth: 1,
+    borderRadius: 10,
+    paddingVertical: 6,
+    alignItems: 'center',
+    gap: 2,
+  },
+  date: {
+    fontSize: 11,
+  },
+  mark: {
+    fontSize: 12,
+    fontWeight: '700',
+  },
+  streak: {
+    fontSize: 12,
+  },
+});
@@ -0,0 +1,70 @@
+import { StyleSheet, View } from 'react-native';
+
+import { ThemedText } from '@/components/themed-text';
+import { useThemeColor } from '@/hooks/use-theme-color';
+import { goalUnit, type GoalProgress } from '@/src/lib/goals';
+
+type Props = {
+  progress: GoalProgress;
+  /** studyStreak（今日まだでも昨日までの連続は切らない） */
+  streak: number;
+  /** 1行だけの小さい表示（クイズ画面の上） */
+  compact?: boolean;
+};
+
+/**
+ * 今日の目標の進み具合と連続学習日数
+ * - 目標に届いたら緑
+ */
+export function GoalStatus({ progress, streak, compact }: Props) {
+  const tint = useThemeColor({}, 'tint');
+  const icon = useThemeColor({}, 'icon');
+
+  const { done, goal, met } = progress;
+  const color = met ? '#2ecc71' : tint;
+  const ratio = goal.amount > 0 ? Math.min(1, done / goal.amount) : 0;
+  const unit = goalUnit(goal.kind);
+
+  return (
+    <View style={compact ? styles.compact : styles.wrap}>
+      <View style={styles.row}>
+        <ThemedText type={compact ? 'default' : 'defaultSemiBold'} style={compact ? styles.small : null}>
+          {`今日の目標: ${Math.min(done, goal.amount)} / ${goal.amount}${unit}${met ? ' 達成!' : ''}`}
+        </ThemedText>
+        <ThemedText style={compact ? styles.small : null} lightColor={icon} darkColor={icon}>
+          {`連続 ${streak}日`}
+        </ThemedText>
+      </View>
+      <View style={[styles.track, { borderColor: icon }]}>
+        <View style={[styles.fill, { width: `${Math.round(ratio * 100)}%`, backgroundColor: color }]} />
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  wrap: {
+    gap: 6,
+  },
+  compact: {
+    gap: 4,
+  },
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    gap: 12,
+  },
+  small: {
+    fontSize: 13,
+  },
+  track: {
+    height: 6,
+    borderWidth: StyleSheet.hairlineWidth,
+    borderRadius: 3,
+    overflow: 'hidden',
+  },
+  fill: {
+    height: '100%',
+  },
+});
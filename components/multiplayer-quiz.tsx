@@ -0,0 +1,447 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { Keyboard, Pressable, StyleSheet, TextInput, View } from 'react-native';
+
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import type { ListThemeDataset } from '@/datasets/themes';
+import { useThemeColor } from '@/hooks/use-theme-color';
+import { buildAnswerIndex, type GradeOptions } from '@/src/lib/grading';
+import {
+  cleanPlayerNames,
+  isMatchOver,
+  loadMultiplayerStore,
+  MAX_PLAYERS,
+  MIN_PLAYERS,
+  passTurn,
+  playerNamesError,
+  playTurn,
+  standings,
+  startMatch,
+  type MatchPlayer,
+  type MatchState,
+  type TurnResult,
+} from '@/src/lib/multiplayer';
+
+type Props = {
+  dataset: ListThemeDataset;
+  gradeOptions: GradeOptions;
+  /** called once per finished match (scores in turn order) */
+  onFinish: (players: MatchPlayer[]) => void;
+  onClose: () => void;
+};
+
+function matchPlayers(state: MatchState): MatchPlayer[] {
+  return state.players.map((name, i) => ({ name, score: state.scores[i] }));
+}
+
+// 直前の回答の結果（次の人に見せる一言）
+function turnMessage(player: string, r: TurnResult, claimedByName: string | null): string {
+  if (r.outcome === 'claimed') return `${player}さん: ${r.answer} ○`;
+  if (r.outcome === 'taken') return `「${r.answer}」は${claimedByName ?? 'だれか'}さんが答え済みです（もう一度どうぞ）`;
+  if (r.outcome === 'near') return `${player}さん: 惜しい！`;
+  return `${player}さん: 不正解`;
+}
+
+/**
+ * みんなで（1台の端末を回して遊ぶ）
+ * - 2〜6人が同じテーマの答えを1つずつ順番に言う。だれかが答えた答えは、ほかの人は使えない
+ * - 採点は gradeIncremental（正規化/別名/読み/惜しい判定は1人用と同じ）
+ * - 全部出尽くすか、全員が続けて答えられなかったら終了して順位を出す
+ */
+export function MultiplayerQuiz({ dataset, gradeOptions, onFinish, onClose }: Props) {
+  const tint = useThemeColor({}, 'tint');
+  const icon = useThemeColor({}, 'icon');
+  const textColor = useThemeColor({}, 'text');
+
+  const [names, setNames] = useState<string[]>(() => Array.from({ length: MIN_PLAYERS }, () => ''));
+  const [match, setMatch] = useState<MatchState | null>(null);
+  const [finished, setFinished] = useState(false);
+  const [input, setInput] = useState('');
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const inputRef = useRef<TextInput>(null);
+
+  const answerIndex = useMemo(() => buildAnswerIndex(dataset.answers, gradeOptions), [dataset, gradeOptions]);
+
+  // 前回のメンバーを最初から入れておく
+  useEffect(() => {
+    void (async () => {
+      const store = await loadMultiplayerStore();
+      if (store.lastPlayers.length >= MIN_PLAYERS) setNames(store.lastPlayers.slice(0, MAX_PLAYERS));
+    })();
+  }, []);
+
+  const begin = (players: string[]) => {
+    setMatch(startMatch(players));
+    setFinished(false);
+    setInput('');
+    setMessage(null);
+    setError(null);
+  };
+
+  const start = () => {
+    const players = cleanPlayerNames(names);
+    const e = playerNamesError(players);
+    if (e) {
+      setError(e);
+      return;
+    }
+    begin(players);
+  };
+
+  const finish = (state: MatchState) => {
+    Keyboard.dismiss();
+    setMatch(state);
+    setFinished(true);
+    onFinish(matchPlayers(state));
+  };
+
+  const advance = (state: MatchState) => {
+    if (isMatchOver(state, dataset.answers.length)) finish(state);
+    else setMatch(state);
+  };
+
+  const answer = () => {
+    if (!match || finished) return;
+    if (!input.trim()) {
+      setError('入力してください');
+      return;
+    }
+    const player = match.players[match.turn];
+    const r = playTurn(match, input, answerIndex, gradeOptions);
+    const by = r.outcome === 'taken' && r.answer != null ? match.players[match.claimedBy[r.answer]] : null;
+    setMessage(turnMessage(player, r, by ?? null));
+    setError(null);
+    setInput('');
+    advance(r.state);
+    requestAnimationFrame(() => inputRef.current?.focus());
+  };
+
+  const pass = () => {
+    if (!match || finished) return;
+    setMessage(`${match.players[match.turn]}さん: パス`);
+    setError(null);
+    setInput('');
+    advance(passTurn(match));
+  };
+
+  if (!match) {
+    return (
+      <ThemedView style={[styles.card, { borderColor: icon }]}>
+        <View style={styles.metaRow}>
+          <ThemedText style={styles.cardLabel} lightColor={icon} darkColor={icon}>
+            みんなで
+          </ThemedText>
+          <ThemedText style={styles.cardLabel} lightColor={icon} darkColor={icon}>
+            {MIN_PLAYERS}〜{MAX_PLAYERS}人
+          </ThemedText>
+        </View>
+        <ThemedText style={styles.prompt}>{dataset.title}</ThemedText>
+        <ThemedText lightColor={icon} darkColor={icon}>
+          順番に1つずつ答えます。ほかの人が答えた答えは使えません
+        </ThemedText>
+        {names.map((name, i) => (
+          <View key={i} style={styles.inputRow}>
+            <TextInput
+              value={name}
+              onChangeText={(v) => setNames((prev) => prev.map((n, j) => (j === i ? v : n)))}
+              placeholder={`プレイヤー${i + 1}`}
+              placeholderTextColor={icon}
+              style={[styles.input, { borderColor: icon, color: textColor }]}
+              autoCorrect={false}
+              returnKeyType="next"
+            />
+            {names.length > MIN_PLAYERS ? (
+              <Pressable onPress={() => setNames((prev) => prev.filter((_, j) => j !== i))} hitSlop={8}>
+                <ThemedText style={styles.removeText} lightColor={icon} darkColor={icon}>
+                  ×
+                </ThemedText>
+              </Pressable>
+            ) : null}
+          </View>
+        ))}
+        {error ? (
+          <ThemedView style={[styles.message, { borderColor: icon }]}>
+            <ThemedText>{error}</ThemedText>
+          </ThemedView>
+        ) : null}
+        <View style={styles.actionsRow}>
+          <Pressable
+            onPress={start}
+            style={({ pressed }) => [styles.secondaryButton, { borderColor: tint }, pressed ? { opacity: 0.85 } : null]}>
+            <ThemedText style={styles.secondaryButtonText} lightColor={tint} darkColor={tint}>
+              始める
+            </ThemedText>
+          </Pressable>
+          {names.length < MAX_PLAYERS ? (
+            <Pressable
+              onPress={() => setNames((prev) => [...prev, ''])}
+              style={({ pressed }) => [styles.ghostButton, { borderColor: icon }, pressed ? { opacity: 0.85 } : null]}>
+              <ThemedText style={styles.ghostButtonText} lightColor={icon} darkColor={icon}>
+                ＋ 追加
+              </ThemedText>
+            </Pressable>
+          ) : null}
+          <Pressable
+            onPress={onClose}
+            style={({ pressed }) => [styles.ghostButton, { borderColor: icon }, pressed ? { opacity: 0.85 } : null]}>
+            <ThemedText style={styles.ghostButtonText} lightColor={icon} darkColor={icon}>
+              やめる
+            </ThemedText>
+          </Pressable>
+        </View>
+      </ThemedView>
+    );
+  }
+
+  const claimed = Object.entries(match.claimedBy);
+  const remaining = dataset.answers.filter((a) => !(a in match.claimedBy));
+
+  return (
+    <View style={styles.section}>
+      <ThemedView style={[styles.card, { borderColor: icon }]}>
+        <View style={styles.metaRow}>
+          <ThemedText style={styles.cardLabel} lightColor={icon} darkColor={icon}>
+            みんなで・{dataset.title}
+          </ThemedText>
+          <ThemedText type="defaultSemiBold">
+            {claimed.length} / {dataset.answers.length}
+          </ThemedText>
+        </View>
+
+        {finished ? (
+          <ThemedText style={styles.prompt}>終了</ThemedText>
+        ) : (
+          <>
+            <ThemedText style={styles.prompt} lightColor={tint} darkColor={tint}>
+              {match.players[match.turn]}さんの番
+            </ThemedText>
+            <View style={styles.inputRow}>
+              <TextInput
+                ref={inputRef}
+                value={input}
+                onChangeText={setInput}
+                placeholder="答えを入力"
+                placeholderTextColor={icon}
+                style={[styles.input, { borderColor: icon, color: textColor }]}
+                autoCapitalize="none"
+                autoCorrect={false}
+                returnKeyType="done"
+                onSubmitEditing={answer}
+              />
+              <Pressable
+                onPress={answer}
+                style={({ pressed }) => [styles.primaryButton, { backgroundColor: tint, opacity: pressed ? 0.85 : 1 }]}>
+                <ThemedText style={styles.primaryButtonText} lightColor="#fff" darkColor="#151718">
+                  回答
+                </ThemedText>
+              </Pressable>
+            </View>
+          </>
+        )}
+        {message ? <ThemedText>{message}</ThemedText> : null}
+        {error ? (
+          <ThemedView style={[styles.message, { borderColor: icon }]}>
+            <ThemedText>{error}</ThemedText>
+          </ThemedView>
+        ) : null}
+
+        {/* 点数（順番どおり。番の人を強調） */}
+        <View style={styles.scoreRow}>
+          {match.players.map((name, i) => {
+            const current = !finished && i === match.turn;
+            return (
+              <ThemedView key={name} style={[styles.scoreChip, { borderColor: current ? tint : icon }]}>
+                <ThemedText
+                  style={styles.scoreChipText}
+                  lightColor={current ? tint : undefined}
+                  darkColor={current ? tint : undefined}>
+                  {name} {match.scores[i]}
+                </ThemedText>
+              </ThemedView>
+            );
+          })}
+        </View>
+
+        <View style={styles.actionsRow}>
+          {!finished ? (
+            <>
+              <Pressable
+                onPress={pass}
+                style={({ pressed }) => [styles.ghostButton, { borderColor: icon }, pressed ? { opacity: 0.85 } : null]}>
+                <ThemedText style={styles.ghostButtonText} lightColor={icon} darkColor={icon}>
+                  パス
+                </ThemedText>
+              </Pressable>
+              <Pressable
+                onPress={() => finish(match)}
+                style={({ pressed }) => [styles.ghostButton, { borderColor: icon }, pressed ? { opacity: 0.85 } : null]}>
+                <ThemedText style={styles.ghostButtonText} lightColor={icon} darkColor={icon}>
+                  ここで終了
+                </ThemedText>
+              </Pressable>
+            </>
+          ) : (
+            <>
+              <Pressable
+                onPress={() => begin(match.players)}
+                style={({ pressed }) => [styles.secondaryButton, { borderColor: tint }, pressed ? { opacity: 0.85 } : null]}>
+                <ThemedText style={styles.secondaryButtonText} lightColor={tint} darkColor={tint}>
+                  同じメンバーでもう一度
+                </ThemedText>
+              </Pressable>
+              <Pressable
+                onPress={onClose}
+                style={({ pressed }) => [styles.ghostButton, { borderColor: icon }, pressed ? { opacity: 0.85 } : null]}>
+                <ThemedText style={styles.ghostButtonText} lightColor={icon} darkColor={icon}>
+                  閉じる
+                </ThemedText>
+              </Pressable>
+            </>
+          )}
+        </View>
+      </ThemedView>
+
+      {finished ? (
+        <ThemedView style={[styles.summaryBox, { borderColor: icon }]}>
+          <ThemedText type="subtitle">順位</ThemedText>
+          {standings(matchPlayers(match)).map((s) => (
+            <ThemedText key={s.name} type={s.rank === 1 ? 'defaultSemiBold' : undefined}>
+              {s.rank}位 {s.name}さん {s.score}点
+            </ThemedText>
+          ))}
+        </ThemedView>
+      ) : null}
+
+      {claimed.length > 0 ? (
+        <ThemedView style={styles.section}>
+          <ThemedText type="defaultSemiBold">出た答え</ThemedText>
+          {claimed.map(([a, i]) => (
+            <ThemedText key={a}>
+              - {a}（{match.players[i]}）
+            </ThemedText>
+          ))}
+        </ThemedView>
+      ) : null}
+
+      {finished && remaining.length > 0 ? (
+        <ThemedView style={styles.section}>
+          <ThemedText type="defaultSemiBold">出なかった答え</ThemedText>
+          <ThemedText>{remaining.join('、')}</ThemedText>
+        </ThemedView>
+      ) : null}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  section: {
+    gap: 10,
+  },
+  card: {
+    borderWidth: 1,
+    borderRadius: 16,
+    padding: 16,
+    gap: 12,
+  },
+  metaRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 12,
+  },
+  cardLabel: {
+    fontSize: 12,
+    letterSpacing: 0.2,
+  },
+  prompt: {
+    fontSize: 22,
+    lineHeight: 28,
+    fontWeight: '800',
+  },
+  inputRow: {
+    flexDirection: 'row',
+    gap: 12,
+    alignItems: 'center',
+  },
+  input: {
+    flex: 1,
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 16,
+  },
+  removeText: {
+    fontSize: 20,
+    paddingHorizontal: 4,
+  },
+  message: {
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+  },
+  primaryButton: {
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+    borderRadius: 12,
+    alignItems: 'center',
+    justifyContent: 'center',
+    minWidth: 64,
+  },
+  primaryButtonText: {
+    fontSize: 16,
+    fontWeight: '700',
+  },
+  scoreRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  scoreChip: {
+    borderWidth: 1,
+    borderRadius: 999,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+  },
+  scoreChipText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  actionsRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 10,
+    alignItems: 'center',
+  },
+  secondaryButton: {
+    borderWidth: 2,
+    borderRadius: 12,
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  secondaryButtonText: {
+    fontSize: 16,
+    fontWeight: '700',
+  },
+  ghostButton: {
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+  },
+  ghostButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  summaryBox: {
+    borderWidth: 1,
+    borderRadius: 14,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    gap: 6,
+  },
+});
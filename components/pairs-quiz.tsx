@@ -0,0 +1,273 @@
+import { useRef, useState } from 'react';
+import { Keyboard, Pressable, StyleSheet, TextInput, View } from 'react-native';
+
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import type { PairsThemeDataset } from '@/datasets/themes';
+import { useThemeColor } from '@/hooks/use-theme-color';
+import { drawPairDeck, gradePairAnswer, type PairCardResult } from '@/src/lib/pairs';
+
+type Props = {
+  dataset: PairsThemeDataset;
+  /** cards in this play */
+  cardCount: number;
+  /** called once when the last card is answered */
+  onFinish: (results: PairCardResult[]) => void;
+  /** 「もう一度」: the parent remounts this component with a new key */
+  onRestart: () => void;
+};
+
+/**
+ * pairs テーマのカード式クイズ（お題を1枚ずつ出して答える）
+ * - 山札は mount 時に1回だけ引く（やり直しは親が key を変えて作り直す）
+ * - 採点は gradePairAnswer（= gradeAnswers）で、正規化/惜しい判定は list テーマと同じ
+ */
+export function PairsQuiz({ dataset, cardCount, onFinish, onRestart }: Props) {
+  const tint = useThemeColor({}, 'tint');
+  const icon = useThemeColor({}, 'icon');
+  const textColor = useThemeColor({}, 'text');
+
+  const [deck] = useState(() => drawPairDeck(dataset.items, cardCount));
+  const [index, setIndex] = useState(0);
+  const [input, setInput] = useState('');
+  const [results, setResults] = useState<PairCardResult[]>([]);
+  const inputRef = useRef<TextInput>(null);
+
+  const card = deck[index];
+  // 今のカードに答え済みなら、その結果（次へを押すまで表示する）
+  const answered: PairCardResult | undefined = results[index];
+  const finished = results.length === deck.length;
+  const correctCount = results.filter((r) => r.correct).length;
+
+  const answer = (text: string) => {
+    if (!card || answered) return;
+    const r = gradePairAnswer(card, text, {
+      nearMissPolicy: dataset.nearMissPolicy,
+      profile: dataset.normalizeProfile,
+    });
+    const next = [...results, r];
+    setResults(next);
+    setInput('');
+    if (next.length === deck.length) {
+      Keyboard.dismiss();
+      onFinish(next);
+    }
+  };
+
+  const goNext = () => {
+    if (index + 1 >= deck.length) return;
+    setIndex((i) => i + 1);
+    requestAnimationFrame(() => inputRef.current?.focus());
+  };
+
+  if (!card) {
+    return (
+      <ThemedView style={[styles.card, { borderColor: icon }]}>
+        <ThemedText>このテーマにはカードがありません</ThemedText>
+      </ThemedView>
+    );
+  }
+
+  return (
+    <View style={styles.section}>
+      <ThemedView style={[styles.card, { borderColor: icon }]}>
+        <View style={styles.metaRow}>
+          <ThemedText style={styles.cardLabel} lightColor={icon} darkColor={icon}>
+            {dataset.title}
+          </ThemedText>
+          <ThemedText type="defaultSemiBold">
+            {index + 1} / {deck.length}
+          </ThemedText>
+        </View>
+        <ThemedText style={styles.prompt}>{card.prompt}</ThemedText>
+
+        {answered ? (
+          <View style={styles.feedback}>
+            <ThemedText
+              type="defaultSemiBold"
+              lightColor={answered.correct ? '#2ecc71' : '#e74c3c'}
+              darkColor={answered.correct ? '#2ecc71' : '#e74c3c'}>
+              {answered.correct ? '正解' : answered.kind === 'fuzzy' ? '惜しい' : '不正解'}
+            </ThemedText>
+            <ThemedText>
+              答え: {answered.answer}
+              {answered.input && !answered.correct ? `（あなた: ${answered.input}）` : ''}
+            </ThemedText>
+          </View>
+        ) : (
+          <View style={styles.inputRow}>
+            <TextInput
+              ref={inputRef}
+              value={input}
+              onChangeText={setInput}
+              placeholder="答えを入力"
+              placeholderTextColor={icon}
+              style={[styles.input, { borderColor: icon, color: textColor }]}
+              autoCapitalize="none"
+              autoCorrect={false}
+              returnKeyType="done"
+              onSubmitEditing={() => answer(input)}
+            />
+            <Pressable
+              onPress={() => answer(input)}
+              style={({ pressed }) => [styles.primaryButton, { backgroundColor: tint, opacity: pressed ? 0.85 : 1 }]}>
+              <ThemedText style={styles.primaryButtonText} lightColor="#fff" darkColor="#151718">
+                回答
+              </ThemedText>
+            </Pressable>
+          </View>
+        )}
+
+        <View style={styles.actionsRow}>
+          {answered && !finished ? (
+            <Pressable
+              onPress={goNext}
+              style={({ pressed }) => [styles.secondaryButton, { borderColor: tint }, pressed ? { opacity: 0.85 } : null]}>
+              <ThemedText style={styles.secondaryButtonText} lightColor={tint} darkColor={tint}>
+                次へ
+              </ThemedText>
+            </Pressable>
+          ) : null}
+          {!answered ? (
+            <Pressable
+              onPress={() => answer('')}
+              style={({ pressed }) => [styles.ghostButton, { borderColor: icon }, pressed ? { opacity: 0.85 } : null]}>
+              <ThemedText style={styles.ghostButtonText} lightColor={icon} darkColor={icon}>
+                わからない
+              </ThemedText>
+            </Pressable>
+          ) : null}
+        </View>
+      </ThemedView>
+
+      {finished ? (
+        <ThemedView style={styles.section}>
+          <ThemedText type="subtitle">結果</ThemedText>
+          <ThemedView style={[styles.summaryBox, { borderColor: icon }]}>
+            <ThemedText>
+              正解数: {correctCount} / {deck.length}
+            </ThemedText>
+          </ThemedView>
+          <ThemedView style={styles.resultsBlock}>
+            <ThemedText type="defaultSemiBold">間違えたカード</ThemedText>
+            {results.every((r) => r.correct) ? (
+              <ThemedText>なし</ThemedText>
+            ) : (
+              results
+                .filter((r) => !r.correct)
+                .map((r) => (
+                  <ThemedText key={r.prompt}>
+                    - {r.prompt} → {r.answer}
+                    {r.input ? `（あなた: ${r.input}）` : ''}
+                  </ThemedText>
+                ))
+            )}
+          </ThemedView>
+          <View style={styles.actionsRow}>
+            <Pressable
+              onPress={onRestart}
+              style={({ pressed }) => [styles.secondaryButton, { borderColor: tint }, pressed ? { opacity: 0.85 } : null]}>
+              <ThemedText style={styles.secondaryButtonText} lightColor={tint} darkColor={tint}>
+                もう一度
+              </ThemedText>
+            </Pressable>
+          </View>
+        </ThemedView>
+      ) : null}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  section: {
+    gap: 10,
+  },
+  card: {
+    borderWidth: 1,
+    borderRadius: 16,
+    padding: 16,
+    gap: 12,
+  },
+  metaRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 12,
+  },
+  cardLabel: {
+    fontSize: 12,
+    letterSpacing: 0.2,
+  },
+  prompt: {
+    fontSize: 26,
+    lineHeight: 32,
+    fontWeight: '800',
+  },
+  feedback: {
+    gap: 4,
+  },
+  inputRow: {
+    flexDirection: 'row',
+    gap: 12,
+    alignItems: 'center',
+  },
+  input: {
+    flex: 1,
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 16,
+  },
+  primaryButton: {
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+    borderRadius: 12,
+    alignItems: 'center',
+    justifyContent: 'center',
+    minWidth: 64,
+  },
+  primaryButtonText: {
+    fontSize: 16,
+    fontWeight: '700',
+  },
+  actionsRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 10,
+    alignItems: 'center',
+  },
+  secondaryButton: {
+    borderWidth: 2,
+    borderRadius: 12,
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  secondaryButtonText: {
+    fontSize: 16,
+    fontWeight: '700',
+  },
+  ghostButton: {
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+  },
+  ghostButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  summaryBox: {
+    borderWidth: 1,
+    borderRadius: 14,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    gap: 6,
+  },
+  resultsBlock: {
+    gap: 6,
+    paddingTop: 6,
+  },
+});
@@ -0,0 +1,257 @@
+import { useRef, useState } from 'react';
+import { Keyboard, Pressable, StyleSheet, TextInput, View } from 'react-native';
+
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { THEMES } from '@/datasets/themes';
+import { useThemeColor } from '@/hooks/use-theme-color';
+import { gradeReviewAnswer, reviewClues, type ReviewAnswerResult, type ReviewCard } from '@/src/lib/review';
+
+type Props = {
+  /** due cards of this session (see dueReviewCards) */
+  cards: ReviewCard[];
+  /** called for every answered card, so progress is kept even if the session is left midway */
+  onAnswer: (card: ReviewCard, result: ReviewAnswerResult) => void;
+  onClose: () => void;
+};
+
+/**
+ * 復習: 期限が来た答えを1枚ずつ出すカード式（テーマをまたぐ）
+ * - お題はテーマ名 + countries_base の情報（地域など）、pairs はカードのお題
+ * - 採点は各テーマの別名/読み/正規化で行う（gradeReviewAnswer）
+ */
+export function ReviewQuiz({ cards, onAnswer, onClose }: Props) {
+  const tint = useThemeColor({}, 'tint');
+  const icon = useThemeColor({}, 'icon');
+  const textColor = useThemeColor({}, 'text');
+
+  const [index, setIndex] = useState(0);
+  const [input, setInput] = useState('');
+  const [results, setResults] = useState<ReviewAnswerResult[]>([]);
+  const inputRef = useRef<TextInput>(null);
+
+  const card = cards[index];
+  const theme = card ? THEMES.find((t) => t.id === card.themeId) : undefined;
+  const answered: ReviewAnswerResult | undefined = results[index];
+  const finished = results.length === cards.length;
+  const correctCount = results.filter((r) => r.correct).length;
+
+  const answer = (text: string) => {
+    if (!card || !theme || answered) return;
+    const r = gradeReviewAnswer(card, theme, text);
+    setResults((prev) => [...prev, r]);
+    setInput('');
+    onAnswer(card, r);
+    if (results.length + 1 === cards.length) Keyboard.dismiss();
+  };
+
+  const goNext = () => {
+    if (index + 1 >= cards.length) return;
+    setIndex((i) => i + 1);
+    requestAnimationFrame(() => inputRef.current?.focus());
+  };
+
+  if (!card || !theme) {
+    return (
+      <ThemedView style={[styles.card, { borderColor: icon }]}>
+        <ThemedText>今日復習する答えはありません</ThemedText>
+        <Pressable
+          onPress={onClose}
+          style={({ pressed }) => [styles.ghostButton, { borderColor: icon }, pressed ? { opacity: 0.85 } : null]}>
+          <ThemedText style={styles.ghostButtonText} lightColor={icon} darkColor={icon}>
+            閉じる
+          </ThemedText>
+        </Pressable>
+      </ThemedView>
+    );
+  }
+
+  return (
+    <View style={styles.section}>
+      <ThemedView style={[styles.card, { borderColor: icon }]}>
+        <View style={styles.metaRow}>
+          <ThemedText style={styles.cardLabel} lightColor={icon} darkColor={icon}>
+            復習
+          </ThemedText>
+          <ThemedText type="defaultSemiBold">
+            {index + 1} / {cards.length}
+          </ThemedText>
+        </View>
+        {reviewClues(card, theme).map((clue, i) => (
+          <ThemedText key={clue} style={i === 0 ? styles.prompt : styles.clue}>
+            {clue}
+          </ThemedText>
+        ))}
+
+        {answered ? (
+          <View style={styles.feedback}>
+            <ThemedText
+              type="defaultSemiBold"
+              lightColor={answered.correct ? '#2ecc71' : '#e74c3c'}
+              darkColor={answered.correct ? '#2ecc71' : '#e74c3c'}>
+              {answered.correct ? '正解' : answered.kind === 'fuzzy' ? '惜しい' : '不正解'}
+            </ThemedText>
+            <ThemedText>
+              答え: {card.answer}
+              {answered.input && !answered.correct ? `（あなた: ${answered.input}）` : ''}
+            </ThemedText>
+          </View>
+        ) : (
+          <View style={styles.inputRow}>
+            <TextInput
+              ref={inputRef}
+              value={input}
+              onChangeText={setInput}
+              placeholder="答えを入力"
+              placeholderTextColor={icon}
+              style={[styles.input, { borderColor: icon, color: textColor }]}
+              autoCapitalize="none"
+              autoCorrect={false}
+              returnKeyType="done"
+              onSubmitEditing={() => answer(input)}
+            />
+            <Pressable
+              onPress={() => answer(input)}
+              style={({ pressed }) => [styles.primaryButton, { backgroundColor: tint, opacity: pressed ? 0.85 : 1 }]}>
+              <ThemedText style={styles.primaryButtonText} lightColor="#fff" darkColor="#151718">
+                回答
+              </ThemedText>
+            </Pressable>
+          </View>
+        )}
+
+        <View style={styles.actionsRow}>
+          {answered && !finished ? (
+            <Pressable
+              onPress={goNext}
+              style={({ pressed }) => [styles.secondaryButton, { borderColor: tint }, pressed ? { opacity: 0.85 } : null]}>
+              <ThemedText style={styles.secondaryButtonText} lightColor={tint} darkColor={tint}>
+                次へ
+              </ThemedText>
+            </Pressable>
+          ) : null}
+          {!answered ? (
+            <Pressable
+              onPress={() => answer('')}
+              style={({ pressed }) => [styles.ghostButton, { borderColor: icon }, pressed ? { opacity: 0.85 } : null]}>
+              <ThemedText style={styles.ghostButtonText} lightColor={icon} darkColor={icon}>
+                わからない
+              </ThemedText>
+            </Pressable>
+          ) : null}
+          <Pressable
+            onPress={onClose}
+            style={({ pressed }) => [styles.ghostButton, { borderColor: icon }, pressed ? { opacity: 0.85 } : null]}>
+            <ThemedText style={styles.ghostButtonText} lightColor={icon} darkColor={icon}>
+              {finished ? '終わる' : 'やめる'}
+            </ThemedText>
+          </Pressable>
+        </View>
+      </ThemedView>
+
+      {finished ? (
+        <ThemedView style={[styles.summaryBox, { borderColor: icon }]}>
+          <ThemedText>
+            思い出せた: {correctCount} / {cards.length}
+          </ThemedText>
+          <ThemedText lightColor={icon} darkColor={icon}>
+            思い出せなかった答えは明日また出ます
+          </ThemedText>
+        </ThemedView>
+      ) : null}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  section: {
+    gap: 10,
+  },
+  card: {
+    borderWidth: 1,
+    borderRadius: 16,
+    padding: 16,
+    gap: 12,
+  },
+  metaRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 12,
+  },
+  cardLabel: {
+    fontSize: 12,
+    letterSpacing: 0.2,
+  },
+  prompt: {
+    fontSize: 22,
+    lineHeight: 28,
+    fontWeight: '800',
+  },
+  clue: {
+    fontSize: 14,
+  },
+  feedback: {
+    gap: 4,
+  },
+  inputRow: {
+    flexDirection: 'row',
+    gap: 12,
+    alignItems: 'center',
+  },
+  input: {
+    flex: 1,
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 16,
+  },
+  primaryButton: {
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+    borderRadius: 12,
+    alignItems: 'center',
+    justifyContent: 'center',
+    minWidth: 64,
+  },
+  primaryButtonText: {
+    fontSize: 16,
+    fontWeight: '700',
+  },
+  actionsRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 10,
+    alignItems: 'center',
+  },
+  secondaryButton: {
+    borderWidth: 2,
+    borderRadius: 12,
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  secondaryButtonText: {
+    fontSize: 16,
+    fontWeight: '700',
+  },
+  ghostButton: {
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+  },
+  ghostButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  summaryBox: {
+    borderWidth: 1,
+    borderRadius: 14,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    gap: 6,
+  },
+});
@@ -1,3 +1,10 @@
-export { CATEGORIES, THEMES, type CategoryMeta, type ThemeDataset, type ThemeMeta } from './themes.generated';
-
-
+export {
+  CATEGORIES,
+  THEMES,
+  type CategoryMeta,
+  type ListThemeDataset,
+  type PairItem,
+  type PairsThemeDataset,
+  type ThemeDataset,
+  type ThemeMeta,
+} from './themes.generated';
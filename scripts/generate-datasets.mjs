@@ -12,7 +12,8 @@ import { SOURCES } from './sources/index.mjs';
  *
  * 入力:
  * - scripts/sources/* のモジュール群
- *   - fetchThemes(): ThemeSpec[] を返す（テーマ=クイズ用、answersを持つ）
+ *   - fetchThemes(): ThemeSpec[] を返す（テーマ=クイズ用、answersを持つ。任意で aliases / readings / entityIds / acceptEnglish / nearMissPolicy / normalizeProfile / defaultTarget）
+ *     - kind: "pairs" のテーマは answers の代わりに items: [{ prompt, answers }] を持つ
  *   - fetchDatasets(): DatasetSpec[] を返す（canonical辞書、entities等を持つ）
  *
  * 出力:
@@ -25,6 +26,15 @@ import { SOURCES } from './sources/index.mjs';
  */
 
 const SNAKE_CASE_RE = /^[a-z][a-z0-9]*(?:_[a-z0-9]+)*$/;
+const ISO2_RE = /^[A-Z]{2}$/;
+// 惜しい回答の扱い（src/lib/grading.ts の NearMissPolicy と揃える）
+const NEAR_MISS_POLICIES = ['score', 'half', 'flag'];
+// list: 1つのお題に答えの一覧 / pairs: お題 -> 答え のカード
+const THEME_KINDS = ['list', 'pairs'];
+// src/lib/target.ts の TargetCount と揃える
+const TARGET_COUNTS = [5, 10, 20, 'all'];
+// 正規化プロファイル（src/lib/normalize.ts の NormalizeProfile と揃える）
+const NORMALIZE_PROFILES = ['strict', 'loose-katakana', 'latin', 'romaji'];
 
 function warn(message) {
   // 警告: 自動補正や軽微な整形を行った場合に出す（運用で気づけるようにする）
@@ -64,8 +74,107 @@ function sanitizeAnswers(answers, ctx) {
   return uniqPreserveOrder(trimmed);
 }
 
+function sanitizeAnswerVariants(variants, answers, ctx, field) {
+  // aliases / readings: { [正答(answers の要素)]: 別表記[] }
+  // - キーは answers に存在するものだけ（無いものは警告して捨てる）
+  // - 正答自身と同じ表記は捨てる
+  // - 他の正答/他グループの表記と重なる場合は警告して捨てる（採点が曖昧になるため）
+  if (variants == null) return {};
+  if (!isObject(variants) || Array.isArray(variants)) {
+    fail(`${ctx}: ${field} がオブジェクトではありません`);
+    return {};
+  }
+
+  const answerSet = new Set(answers);
+  const claimed = new Set(answers);
+  const out = {};
+  for (const answer of answers) {
+    const raw = variants[answer];
+    if (raw == null) continue;
+    if (!Array.isArray(raw)) {
+      fail(`${ctx}: ${field}["${answer}"] が配列ではありません`);
+      continue;
+    }
+    const kept = [];
+    for (const v of sanitizeAnswers(raw, `${ctx}: ${field}["${answer}"]`)) {
+      if (v === answer) continue;
+      if (claimed.has(v)) {
+        warn(`${ctx}: ${field} "${v}"（${answer}）は他の正答/表記と重複するため除外します`);
+        continue;
+      }
+      claimed.add(v);
+      kept.push(v);
+    }
+    if (kept.length > 0) out[answer] = kept;
+  }
+
+  for (const key of Object.keys(variants)) {
+    if (!answerSet.has(key.trim())) {
+      warn(`${ctx}: ${field} のキー "${key}" は answers に無いため除外します`);
+    }
+  }
+  return out;
+}
+
+function sanitizeEntityIds(entityIds, answers, ctx) {
+  // entityIds: { [正答]: canonical の id（国なら ISO2） }
+  // - 英語名など canonical 側の表記で答えられるようにするための紐付け
+  if (entityIds == null) return {};
+  if (!isObject(entityIds) || Array.isArray(entityIds)) {
+    fail(`${ctx}: entityIds がオブジェクトではありません`);
+    return {};
+  }
+  const answerSet = new Set(answers);
+  const out = {};
+  for (const [key, value] of Object.entries(entityIds)) {
+    const answer = key.trim();
+    if (!answerSet.has(answer)) {
+      warn(`${ctx}: entityIds のキー "${key}" は answers に無いため除外します`);
+      continue;
+    }
+    const entityId = typeof value === 'string' ? value.trim() : '';
+    if (!ISO2_RE.test(entityId)) {
+      fail(`${ctx}: entityIds["${answer}"] が ISO2 ではありません: ${JSON.stringify(value)}`);
+      continue;
+    }
+    out[answer] = entityId;
+  }
+  return out;
+}
+
+function sanitizePairItems(items, ctx) {
+  // pairs の items: [{ prompt, answers: string[] }]
+  // - prompt は trim して空/重複を許さない（カードが区別できなくなるため）
+  // - answers は sanitizeAnswers と同じ整形。先頭が表示用の正答
+  if (!Array.isArray(items)) {
+    fail(`${ctx}: items が配列ではありません`);
+    return [];
+  }
+  const out = [];
+  const seenPrompts = new Set();
+  for (const [i, item] of items.entries()) {
+    const prompt = typeof item?.prompt === 'string' ? item.prompt.trim() : '';
+    if (!prompt) {
+      fail(`${ctx}: items[${i}].prompt が空です`);
+      continue;
+    }
+    if (seenPrompts.has(prompt)) {
+      fail(`${ctx}: items の prompt が重複しています: "${prompt}"`);
+      continue;
+    }
+    seenPrompts.add(prompt);
+    const answers = sanitizeAnswers(item?.answers, `${ctx}: items[${i}]`);
+    if (answers.length === 0) {
+      fail(`${ctx}: items[${i}].answers が空です（prompt="${prompt}"）`);
+      continue;
+    }
+    out.push({ prompt, answers });
+  }
+  return out;
+}
+
 function isObject(x) {
-  // 将来の拡張用（現状は残しているが必須ではない）
+  // null 以外のオブジェクト（配列を含む）
   return x != null && typeof x === 'object';
 }
 
@@ -179,9 +288,64 @@ async function main() {
     }
     categoryTitleById.set(categoryId, categoryTitle);
 
-    const answers = sanitizeAnswers(t?.answers, ctx);
-    if (answers.length === 0) {
-      fail(`${ctx}: answers が空です（trim/空文字除去/重複除去後）`);
+    const kind = t?.kind ?? 'list';
+    if (!THEME_KINDS.includes(kind)) {
+      fail(`${ctx}: kind が不正です: ${JSON.stringify(kind)}`);
+      continue;
+    }
+
+    let content;
+    if (kind === 'pairs') {
+      const items = sanitizePairItems(t?.items, ctx);
+      if (items.length === 0) {
+        fail(`${ctx}: items が空です`);
+        continue;
+      }
+      content = { kind, items };
+    } else {
+      const answers = sanitizeAnswers(t?.answers, ctx);
+      if (answers.length === 0) {
+        fail(`${ctx}: answers が空です（trim/空文字除去/重複除去後）`);
+        continue;
+      }
+
+      const aliases = sanitizeAnswerVariants(t?.aliases, answers, ctx, 'aliases');
+      // 読み（漢字の答えをかなでも受け付ける）。表示は常に answers 側
+      const readings = sanitizeAnswerVariants(t?.readings, answers, ctx, 'readings');
+      const entityIds = sanitizeEntityIds(t?.entityIds, answers, ctx);
+
+      const acceptEnglish = t?.acceptEnglish;
+      if (acceptEnglish != null && typeof acceptEnglish !== 'boolean') {
+        fail(`${ctx}: acceptEnglish が boolean ではありません: ${JSON.stringify(acceptEnglish)}`);
+        continue;
+      }
+
+      // list は kind を書かない（既存テーマの JSON を変えない）
+      content = {
+        answers,
+        // 別名が無いテーマは従来どおりの形で出す（差分を増やさない）
+        ...(Object.keys(aliases).length > 0 ? { aliases } : {}),
+        ...(Object.keys(readings).length > 0 ? { readings } : {}),
+        ...(Object.keys(entityIds).length > 0 ? { entityIds } : {}),
+        ...(acceptEnglish != null ? { acceptEnglish } : {}),
+      };
+    }
+
+    const nearMissPolicy = t?.nearMissPolicy;
+    if (nearMissPolicy != null && !NEAR_MISS_POLICIES.includes(nearMissPolicy)) {
+      fail(`${ctx}: nearMissPolicy が不正です: ${JSON.stringify(nearMissPolicy)}`);
+      continue;
+    }
+
+    const normalizeProfile = t?.normalizeProfile;
+    if (normalizeProfile != null && !NORMALIZE_PROFILES.includes(normalizeProfile)) {
+      fail(`${ctx}: normalizeProfile が不正です: ${JSON.stringify(normalizeProfile)}`);
+      continue;
+    }
+
+    const defaultTarget = t?.defaultTarget;
+    if (defaultTarget != null && !TARGET_COUNTS.includes(defaultTarget)) {
+      fail(`${ctx}: defaultTarget が不正です: ${JSON.stringify(defaultTarget)}`);
       continue;
     }
 
@@ -190,7 +354,10 @@ async function main() {
       title: title.trim(),
       categoryId: categoryId.trim(),
       categoryTitle: categoryTitle.trim(),
-      answers,
+      ...content,
+      ...(nearMissPolicy != null ? { nearMissPolicy } : {}),
+      ...(normalizeProfile != null ? { normalizeProfile } : {}),
+      ...(defaultTarget != null ? { defaultTarget } : {}),
     };
 
     byId.set(id, out);
@@ -199,7 +366,6 @@ async function main() {
 
   // 3) validate + normalize (canonical datasets)
   // canonical は「テーマ」ではないので datasets/canonical に出す。
-  const ISO2_RE = /^[A-Z]{2}$/;
   const datasetsOut = [];
 
   for (const d of collectedDatasets) {
@@ -258,11 +424,22 @@ async function main() {
         }
         if (labelJa) jaCount += 1;
 
+        // 日本語の別名（CLDR 短縮名など）。label_ja と同じものは除外する
+        const aliasesJa = Array.isArray(e?.aliases_ja)
+          ? uniqPreserveOrder(
+              e.aliases_ja
+                .filter((a) => typeof a === 'string')
+                .map((a) => a.trim())
+                .filter((a) => a !== '' && a !== (labelJa || labelEn))
+            )
+          : [];
+
         // 欠損がある場合でも、アプリ側で扱いやすいように形を固定して格納する
         cleanedEntities.push({
           id: iso2,
           label_ja: labelJa || labelEn,
           label_en: labelEn,
+          aliases_ja: aliasesJa,
           continent: typeof e?.continent === 'string' ? e.continent : null,
           region: typeof e?.region === 'string' ? e.region : null,
           landlocked: Boolean(e?.landlocked),
@@ -279,7 +456,7 @@ async function main() {
 
       const out = {
         id,
-        schema: 'countries_base_v2',
+        schema: 'countries_base_v3',
         entities: cleanedEntities,
       };
 
@@ -310,7 +487,8 @@ async function main() {
     }
 
     const { content: afterContent } = await writeJsonAtomic(outPath, t);
-    const count = Array.isArray(t.answers) ? t.answers.length : 0;
+    const list = t.kind === 'pairs' ? t.items : t.answers;
+    const count = Array.isArray(list) ? list.length : 0;
 
     if (before == null) {
       createdOrUpdated += 1;
@@ -5,6 +5,15 @@ const DEFAULT_CATEGORY_ID = 'geography';
 const DEFAULT_CATEGORY_TITLE = '地理';
 
 const SNAKE_CASE_RE = /^[a-z][a-z0-9]*(?:_[a-z0-9]+)*$/;
+const ISO2_RE = /^[A-Z]{2}$/;
+// src/lib/grading.ts の NearMissPolicy と揃える
+const NEAR_MISS_POLICIES = ['score', 'half', 'flag'];
+// list: 1つのお題に答えの一覧 / pairs: お題 -> 答え のカード
+const THEME_KINDS = ['list', 'pairs'];
+// src/lib/target.ts の TargetCount と揃える
+const TARGET_COUNTS = [5, 10, 20, 'all'];
+// src/lib/normalize.ts の NormalizeProfile と揃える
+const NORMALIZE_PROFILES = ['strict', 'loose-katakana', 'latin', 'romaji'];
 
 function warn(message) {
   // eslint-disable-next-line no-console
@@ -32,6 +41,340 @@ function uniqPreserveOrder(arr) {
   return out;
 }
 
+function isPlainObject(x) {
+  return x != null && typeof x === 'object' && !Array.isArray(x);
+}
+
+function cleanStrings(arr) {
+  return uniqPreserveOrder(
+    arr
+      .filter((a) => typeof a === 'string')
+      .map((a) => a.trim())
+      .filter((a) => a !== '')
+  );
+}
+
+/**
+ * aliases / readings の JSON 値（{ [正答]: string[] }）を 正答 -> 候補[] の Map にする。
+ * 形が壊れていれば fail して null を返す。
+ */
+function readAnswerVariantLists(raw, field, answers, filename, id) {
+  const lists = new Map();
+  if (raw == null) return lists;
+  if (!isPlainObject(raw)) {
+    fail(`${filename}: ${field} がオブジェクトではありません（id="${id}"）`);
+    return null;
+  }
+  for (const [key, value] of Object.entries(raw)) {
+    if (!Array.isArray(value)) {
+      fail(`${filename}: ${field}["${key}"] が配列ではありません（id="${id}"）`);
+      return null;
+    }
+    if (!answers.includes(key.trim())) {
+      warn(`${filename}: ${field} のキー "${key}" は answers に無いため除外します（id="${id}"）`);
+      continue;
+    }
+    lists.set(key.trim(), [...(lists.get(key.trim()) ?? []), ...value]);
+  }
+  return lists;
+}
+
+/**
+ * 正答 -> 別表記[]（aliases / readings）を整形する。
+ * - キーは answers にあるものだけ
+ * - 正答自身/他の正答/他グループの表記と重なるものは捨てる（採点が曖昧になるため）
+ */
+function sanitizeAnswerVariants(lists, answers, filename, field) {
+  const claimed = new Set(answers);
+  const out = {};
+  for (const answer of answers) {
+    const kept = [];
+    for (const v of cleanStrings(lists.get(answer) ?? [])) {
+      if (v === answer) continue;
+      if (claimed.has(v)) {
+        warn(`${filename}: ${field} "${v}"（${answer}）は他の正答/表記と重複するため除外します`);
+        continue;
+      }
+      claimed.add(v);
+      kept.push(v);
+    }
+    if (kept.length > 0) out[answer] = kept;
+  }
+  return out;
+}
+
+// 漢字を含む答え（国・地域名）の読み。romaji テーマでローマ字でも答えられるように readings を自動で足す
+// 長い語から順に当てる（「中華人民共和国」が「中国」より先）
+const KANJI_READINGS = {
+  中華人民共和国: 'ちゅうかじんみんきょうわこく',
+  特別行政区: 'とくべつぎょうせいく',
+  首長国連邦: 'しゅちょうこくれんぽう',
+  不明な地域: 'ふめいなちいき',
+  周辺地域: 'しゅうへんちいき',
+  国際連合: 'こくさいれんごう',
+  欧州連合: 'おうしゅうれんごう',
+  小離島: 'しょうりとう',
+  合衆国: 'がっしゅうこく',
+  共和国: 'きょうわこく',
+  自治区: 'じちく',
+  北朝鮮: 'きたちょうせん',
+  インド洋: 'いんどよう',
+  諸島: 'しょとう',
+  及び: 'および',
+  領有: 'りょうゆう',
+  民主: 'みんしゅ',
+  連邦: 'れんぽう',
+  市国: 'しこく',
+  地域: 'ちいき',
+  中国: 'ちゅうごく',
+  中央: 'ちゅうおう',
+  香港: 'ほんこん',
+  仏領: 'ふつりょう',
+  米領: 'べいりょう',
+  英領: 'えいりょう',
+  極南: 'きょくなん',
+  南極: 'なんきょく',
+  台湾: 'たいわん',
+  日本: 'にほん',
+  韓国: 'かんこく',
+  赤道: 'せきどう',
+  疑似: 'ぎじ',
+  領: 'りょう',
+  島: 'とう',
+  国: 'こく',
+  圏: 'けん',
+  東: 'ひがし',
+  西: 'にし',
+  南: 'みなみ',
+  北: 'きた',
+};
+const KANJI_READING_WORDS = Object.keys(KANJI_READINGS).sort((a, b) => b.length - a.length);
+const KANJI_RE = /\p{Script=Han}/u;
+
+/**
+ * 漢字を含む答えの読み（かな）。KANJI_READINGS の語に置き換えて、漢字が残れば null。
+ * 漢字を含まない答えは null（そのままローマ字で答えられる）。
+ */
+function kanjiReading(answer) {
+  if (!KANJI_RE.test(answer)) return null;
+  let out = '';
+  let i = 0;
+  while (i < answer.length) {
+    const word = KANJI_READING_WORDS.find((w) => answer.startsWith(w, i));
+    if (word) {
+      out += KANJI_READINGS[word];
+      i += word.length;
+    } else {
+      out += answer[i];
+      i += 1;
+    }
+  }
+  return KANJI_RE.test(out) ? null : out;
+}
+
+/**
+ * romaji テーマの答えのうち、読みが無い漢字の答えに KANJI_READINGS から読みを足す（answer -> 読み[] の Map を直接更新）。
+ * 読みが作れない答えは WARN（ローマ字では答えられないまま）。
+ */
+function addKanjiReadings(readingLists, answers, filename) {
+  for (const answer of answers) {
+    if (!KANJI_RE.test(answer) || (readingLists.get(answer) ?? []).length > 0) continue;
+    const reading = kanjiReading(answer);
+    if (reading == null) {
+      warn(`${filename}: "${answer}" の読みが KANJI_READINGS に無いため、ローマ字では答えられません`);
+      continue;
+    }
+    readingLists.set(answer, [reading]);
+  }
+}
+
+/**
+ * canonical countries_base から「国名 -> { ISO2, 同じ国の全表記 }」を引ける Map を作る。
+ * label_ja と aliases_ja のどれで引いても同じ国が返る。
+ * canonical が無い場合は空 Map（別名/entityIds の自動付与をしないだけで生成は止めない）。
+ */
+async function loadCountryNameGroups(datasetsDir) {
+  const filePath = path.join(datasetsDir, 'canonical', 'countries_base.json');
+  let json;
+  try {
+    json = JSON.parse(await fs.readFile(filePath, 'utf8'));
+  } catch {
+    warn('canonical/countries_base.json が読めないため、国テーマの別名は自動付与しません');
+    return new Map();
+  }
+
+  const groups = new Map(); // name -> { id, names }
+  const entities = Array.isArray(json?.entities) ? json.entities : [];
+  for (const e of entities) {
+    if (typeof e?.id !== 'string' || !ISO2_RE.test(e.id)) continue;
+    const names = cleanStrings([e?.label_ja, ...(Array.isArray(e?.aliases_ja) ? e.aliases_ja : [])]);
+    for (const name of names) {
+      if (!groups.has(name)) groups.set(name, { id: e.id, names });
+    }
+  }
+  return groups;
+}
+
+/**
+ * 国テーマか（countries_base の別名/entityIds を自動で足す対象）。テーマ id ではなく中身で決める:
+ * - entityIds を持つ（canonical に紐付いている）
+ * - または answers の過半数が countries_base の国名
+ */
+function isCountryTheme(answers, entityIds, countryNameGroups) {
+  if (isPlainObject(entityIds) && Object.keys(entityIds).length > 0) return true;
+  const countries = answers.filter((a) => countryNameGroups.has(a)).length;
+  return countries * 2 > answers.length;
+}
+
+/**
+ * list テーマ（1つのお題に答えの一覧）の中身を検証・整形する。
+ * 不正なら fail して null を返す。
+ */
+function readListTheme(data, filename, id, countryNameGroups, normalizeProfile) {
+  const answers = data?.answers;
+  const aliases = data?.aliases;
+  const readings = data?.readings;
+  const entityIds = data?.entityIds;
+  const acceptEnglish = data?.acceptEnglish;
+
+  // answers
+  if (!Array.isArray(answers)) {
+    fail(`${filename}: answers が配列ではありません（id="${id}"）`);
+    return null;
+  }
+
+  // answers sanitize
+  const cleaned = uniqPreserveOrder(
+    answers
+      .filter((a) => typeof a === 'string')
+      .map((a) => a.trim())
+      .filter((a) => a !== '')
+  );
+
+  if (cleaned.length === 0) {
+    fail(`${filename}: answers が空です（id="${id}"）`);
+    return null;
+  }
+
+  const beforeCount = answers.filter((a) => typeof a === 'string').length;
+  if (cleaned.length !== beforeCount) {
+    warn(
+      `${filename}: answers を整形しました（空文字除去/trim/重複除去）: ${beforeCount} -> ${cleaned.length}`
+    );
+  }
+
+  // aliases / readings（任意）: { [正答]: 別名[] } / { [正答]: 読み[] }
+  const aliasLists = readAnswerVariantLists(aliases, 'aliases', cleaned, filename, id);
+  const readingLists = readAnswerVariantLists(readings, 'readings', cleaned, filename, id);
+  if (!aliasLists || !readingLists) return null;
+  // romaji テーマは漢字の答えにも読みが要る（ローマ字 -> かなで当てるため）
+  if (normalizeProfile === 'romaji') addKanjiReadings(readingLists, cleaned, filename);
+  // 国テーマは countries_base の表記（label_ja / CLDR 短縮名など）を別名として足す
+  const countryTheme = isCountryTheme(cleaned, entityIds, countryNameGroups);
+  if (countryTheme) {
+    for (const answer of cleaned) {
+      const country = countryNameGroups.get(answer);
+      if (!country) continue;
+      aliasLists.set(answer, [...(aliasLists.get(answer) ?? []), ...country.names]);
+    }
+  }
+  const cleanedAliases = sanitizeAnswerVariants(aliasLists, cleaned, filename, 'aliases');
+  const cleanedReadings = sanitizeAnswerVariants(readingLists, cleaned, filename, 'readings');
+
+  // entityIds（任意）: { [正答]: ISO2 }。英語名などで答えるための canonical との紐付け
+  if (entityIds != null && !isPlainObject(entityIds)) {
+    fail(`${filename}: entityIds がオブジェクトではありません（id="${id}"）`);
+    return null;
+  }
+  const cleanedEntityIds = {};
+  let entityIdsOk = true;
+  for (const [key, value] of Object.entries(entityIds ?? {})) {
+    if (!cleaned.includes(key.trim())) {
+      warn(`${filename}: entityIds のキー "${key}" は answers に無いため除外します（id="${id}"）`);
+      continue;
+    }
+    if (typeof value !== 'string' || !ISO2_RE.test(value.trim())) {
+      fail(`${filename}: entityIds["${key}"] が ISO2 ではありません: ${JSON.stringify(value)}（id="${id}"）`);
+      entityIdsOk = false;
+      break;
+    }
+    cleanedEntityIds[key.trim()] = value.trim();
+  }
+  if (!entityIdsOk) return null;
+  // 国テーマは countries_base の国名から足りない分を補う
+  if (countryTheme) {
+    for (const answer of cleaned) {
+      if (cleanedEntityIds[answer]) continue;
+      const country = countryNameGroups.get(answer);
+      if (country) cleanedEntityIds[answer] = country.id;
+    }
+  }
+
+  // acceptEnglish（任意）: 英語名での回答を最初から受け付けるか（画面で切り替え可）
+  if (acceptEnglish != null && typeof acceptEnglish !== 'boolean') {
+    fail(`${filename}: acceptEnglish が boolean ではありません: ${JSON.stringify(acceptEnglish)}（id="${id}"）`);
+    return null;
+  }
+
+  return {
+    answers: cleaned,
+    aliases: cleanedAliases,
+    readings: cleanedReadings,
+    entityIds: cleanedEntityIds,
+    acceptEnglish: acceptEnglish ?? null,
+  };
+}
+
+/**
+ * pairs テーマ（お題 -> 答え のカードの集まり）の中身を検証・整形する。
+ * - items: [{ prompt, answers: string[] }]（answers の先頭が表示用の正答、残りは別表記）
+ * - prompt は空/重複を許さない。answers は trim/空除去/重複除去して1つ以上
+ * - romaji テーマは漢字の答えの読みを別表記として足す
+ * 不正なら fail して null を返す。
+ */
+function readPairsTheme(data, filename, id, normalizeProfile) {
+  const items = data?.items;
+  if (!Array.isArray(items) || items.length === 0) {
+    fail(`${filename}: items が空です（kind="pairs"）（id="${id}"）`);
+    return null;
+  }
+
+  const seenPrompts = new Set();
+  const cleanedItems = [];
+  for (const [i, item] of items.entries()) {
+    const prompt = typeof item?.prompt === 'string' ? item.prompt.trim() : '';
+    if (!prompt) {
+      fail(`${filename}: items[${i}].prompt が空です（id="${id}"）`);
+      return null;
+    }
+    if (seenPrompts.has(prompt)) {
+      fail(`${filename}: items の prompt が重複しています: "${prompt}"（id="${id}"）`);
+      return null;
+    }
+    seenPrompts.add(prompt);
+
+    if (!Array.isArray(item?.answers)) {
+      fail(`${filename}: items[${i}].answers が配列ではありません（prompt="${prompt}"）（id="${id}"）`);
+      return null;
+    }
+    const answers = cleanStrings(item.answers);
+    if (answers.length === 0) {
+      fail(`${filename}: items[${i}].answers が空です（prompt="${prompt}"）（id="${id}"）`);
+      return null;
+    }
+    if (normalizeProfile === 'romaji') {
+      const readings = new Map();
+      addKanjiReadings(readings, answers, filename);
+      for (const reading of [...readings.values()].flat()) {
+        if (!answers.includes(reading)) answers.push(reading);
+      }
+    }
+    cleanedItems.push({ prompt, answers });
+  }
+
+  return { items: cleanedItems };
+}
+
 async function main() {
   const repoRoot = process.cwd();
   const datasetsDir = path.join(repoRoot, 'datasets');
@@ -58,6 +401,8 @@ async function main() {
     return;
   }
 
+  const countryNameGroups = await loadCountryNameGroups(datasetsDir);
+
   const byId = new Map(); // id -> { filename }
   const categoryTitleById = new Map(); // categoryId -> categoryTitle
   const themes = [];
@@ -84,7 +429,9 @@ async function main() {
     const title = data?.title;
     let categoryId = data?.categoryId;
     let categoryTitle = data?.categoryTitle;
-    const answers = data?.answers;
+    const nearMissPolicy = data?.nearMissPolicy;
+    const normalizeProfile = data?.normalizeProfile;
+    const defaultTarget = data?.defaultTarget;
 
     // 1) id
     if (typeof id !== 'string' || id.trim() === '') {
@@ -107,33 +454,47 @@ async function main() {
       continue;
     }
 
-    // 4) answers
-    if (!Array.isArray(answers)) {
-      fail(`${filename}: answers が配列ではありません（id="${id}"）`);
+    // 4) kind（任意。無ければ list）と中身
+    const kind = data?.kind ?? 'list';
+    if (!THEME_KINDS.includes(kind)) {
+      fail(`${filename}: kind が不正です: ${JSON.stringify(kind)}（期待: ${THEME_KINDS.join('/')}）（id="${id}"）`);
+      continue;
+    }
+    const content =
+      kind === 'pairs'
+        ? readPairsTheme(data, filename, id, normalizeProfile)
+        : readListTheme(data, filename, id, countryNameGroups, normalizeProfile);
+    if (!content) continue;
+
+    // 5) nearMissPolicy（任意）: 惜しい回答の扱い。無ければアプリ側の既定値
+    if (nearMissPolicy != null && !NEAR_MISS_POLICIES.includes(nearMissPolicy)) {
+      fail(
+        `${filename}: nearMissPolicy が不正です: ${JSON.stringify(nearMissPolicy)}（期待: ${NEAR_MISS_POLICIES.join('/')}）（id="${id}"）`
+      );
       continue;
     }
 
-    // 5) answers sanitize
-    const cleaned = uniqPreserveOrder(
-      answers
-        .filter((a) => typeof a === 'string')
-        .map((a) => a.trim())
-        .filter((a) => a !== '')
-    );
-
-    if (cleaned.length === 0) {
-      fail(`${filename}: answers が空です（id="${id}"）`);
+    // 6) normalizeProfile（任意）: 表記ゆれの吸収ルール。無ければアプリ側の既定値（strict）
+    if (normalizeProfile != null && !NORMALIZE_PROFILES.includes(normalizeProfile)) {
+      fail(
+        `${filename}: normalizeProfile が不正です: ${JSON.stringify(normalizeProfile)}（期待: ${NORMALIZE_PROFILES.join('/')}）（id="${id}"）`
+      );
       continue;
     }
 
-    const beforeCount = answers.filter((a) => typeof a === 'string').length;
-    if (cleaned.length !== beforeCount) {
-      warn(
-        `${filename}: answers を整形しました（空文字除去/trim/重複除去）: ${beforeCount} -> ${cleaned.length}`
+    // 7) defaultTarget（任意）: 目標数の初期値。無ければアプリ側で決める（10個 / 10個以下のテーマは全部）
+    if (defaultTarget != null && !TARGET_COUNTS.includes(defaultTarget)) {
+      fail(
+        `${filename}: defaultTarget が不正です: ${JSON.stringify(defaultTarget)}（期待: ${TARGET_COUNTS.join('/')}）（id="${id}"）`
       );
+      continue;
+    }
+    const size = kind === 'pairs' ? content.items.length : content.answers.length;
+    if (typeof defaultTarget === 'number' && defaultTarget >= size) {
+      warn(`${filename}: defaultTarget=${defaultTarget} が answers/items 数（${size}）以上です。"all" と同じ扱いになります（id="${id}"）`);
     }
 
-    // 6) category defaults
+    // 8) category defaults
     if (typeof categoryId !== 'string' || categoryId.trim() === '') {
       warn(`${filename}: categoryId が無いので "${DEFAULT_CATEGORY_ID}" に補完します（id="${id}"）`);
       categoryId = DEFAULT_CATEGORY_ID;
@@ -148,7 +509,7 @@ async function main() {
       continue;
     }
 
-    // 7) category title drift
+    // 9) category title drift
     const existingTitle = categoryTitleById.get(categoryId);
     if (existingTitle && existingTitle !== categoryTitle) {
       fail(
@@ -165,7 +526,11 @@ async function main() {
       title: title.trim(),
       categoryId,
       categoryTitle,
-      answers: cleaned,
+      kind,
+      ...content,
+      nearMissPolicy: nearMissPolicy ?? null,
+      normalizeProfile: normalizeProfile ?? null,
+      defaultTarget: defaultTarget ?? null,
     });
   }
 
@@ -195,14 +560,49 @@ async function main() {
   }
 
   lines.push('');
-  lines.push('export type ThemeDataset = {');
+  // 共通フィールド（list / pairs どちらにもある）
+  const commonFields = [
+    '  /** 惜しい回答の扱い（無ければアプリ既定） */',
+    "  nearMissPolicy?: 'score' | 'half' | 'flag';",
+    '  /** 正規化プロファイル（無ければアプリ既定） */',
+    `  normalizeProfile?: ${NORMALIZE_PROFILES.map((p) => `'${p}'`).join(' | ')};`,
+    '  /** 目標数の初期値（pairs ではカード枚数。無ければアプリ既定） */',
+    `  defaultTarget?: ${TARGET_COUNTS.map((t) => JSON.stringify(t).replaceAll('"', "'")).join(' | ')};`,
+  ];
+
+  lines.push('type ThemeDatasetBase = {');
   lines.push('  id: string;');
   lines.push('  title: string;');
   lines.push('  categoryId: string;');
   lines.push('  categoryTitle: string;');
+  lines.push(...commonFields);
+  lines.push('};');
+  lines.push('');
+  lines.push('/** 1つのお題に答えの一覧（「東南アジアの国」→ 国名を思い出す） */');
+  lines.push('export type ListThemeDataset = ThemeDatasetBase & {');
+  lines.push("  kind: 'list';");
   lines.push('  answers: string[];');
+  lines.push('  /** 正答 -> 同じ答えとして受け付ける別名（無いものはキー自体が無い） */');
+  lines.push('  aliases: Record<string, string[]>;');
+  lines.push('  /** 正答 -> 読み（漢字の答えをかなでも受け付ける。表示は常に正答） */');
+  lines.push('  readings: Record<string, string[]>;');
+  lines.push('  /** 正答 -> canonical の id（国なら ISO2）。英語名での回答に使う */');
+  lines.push('  entityIds: Record<string, string>;');
+  lines.push('  /** 英語名での回答を最初から受け付けるか（無ければ false） */');
+  lines.push('  acceptEnglish?: boolean;');
+  lines.push('};');
+  lines.push('');
+  lines.push('/** pairs のカード1枚: お題 -> 答え（answers[0] が表示用の正答、残りは別表記） */');
+  lines.push('export type PairItem = { prompt: string; answers: string[] };');
+  lines.push('');
+  lines.push('/** お題 -> 答え のカードの集まり（国 → 首都 など） */');
+  lines.push('export type PairsThemeDataset = ThemeDatasetBase & {');
+  lines.push("  kind: 'pairs';");
+  lines.push('  items: PairItem[];');
   lines.push('};');
   lines.push('');
+  lines.push('export type ThemeDataset = ListThemeDataset | PairsThemeDataset;');
+  lines.push('');
   lines.push('export type ThemeMeta = {');
   lines.push('  id: string;');
   lines.push('  title: string;');
@@ -222,7 +622,27 @@ async function main() {
     lines.push(`  ...${ident},`);
     lines.push(`  categoryId: ${JSON.stringify(t.categoryId)},`);
     lines.push(`  categoryTitle: ${JSON.stringify(t.categoryTitle)},`);
-    lines.push(`  answers: ${JSON.stringify(t.answers, null, 2)},`);
+    lines.push(`  kind: ${JSON.stringify(t.kind)},`);
+    if (t.kind === 'pairs') {
+      lines.push(`  items: ${JSON.stringify(t.items, null, 2)},`);
+    } else {
+      lines.push(`  answers: ${JSON.stringify(t.answers, null, 2)},`);
+      lines.push(`  aliases: ${JSON.stringify(t.aliases, null, 2)},`);
+      lines.push(`  readings: ${JSON.stringify(t.readings, null, 2)},`);
+      lines.push(`  entityIds: ${JSON.stringify(t.entityIds, null, 2)},`);
+      if (t.acceptEnglish != null) {
+        lines.push(`  acceptEnglish: ${JSON.stringify(t.acceptEnglish)},`);
+      }
+    }
+    if (t.nearMissPolicy) {
+      lines.push(`  nearMissPolicy: ${JSON.stringify(t.nearMissPolicy)},`);
+    }
+    if (t.normalizeProfile) {
+      lines.push(`  normalizeProfile: ${JSON.stringify(t.normalizeProfile)},`);
+    }
+    if (t.defaultTarget != null) {
+      lines.push(`  defaultTarget: ${JSON.stringify(t.defaultTarget)},`);
+    }
     lines.push(`} as ThemeDataset;`);
     lines.push('');
   }
@@ -8,7 +8,13 @@ import path from 'node:path';
 
 const ISO_ALPHA2_RE = /^[A-Z]{2}$/;
 
-export async function fetchThemes() {
+const ALT_KEY_RE = /^([A-Z]{2})-alt-(short|variant)$/;
+
+/**
+ * CLDR の ja territories（ISO2/alt キー -> 表示名）を読み込む。
+ * fetchThemes 以外（countries_base の別名付与など）からも使う。
+ */
+export async function readJaTerritories() {
   const filePath = path.join(
     process.cwd(),
     'node_modules',
@@ -39,7 +45,40 @@ export async function fetchThemes() {
     );
   }
 
+  return territories;
+}
+
+/**
+ * ISO2 -> 別名一覧（CLDR の標準名 + alt-short / alt-variant）。
+ * 標準名を先頭に置く（重複/空は除外）。
+ */
+export function collectJaNamesByIso2(territories) {
+  const out = new Map(); // ISO2 -> string[]
+  const push = (iso2, value) => {
+    if (typeof value !== 'string') return;
+    const name = value.trim();
+    if (!name) return;
+    const arr = out.get(iso2) ?? [];
+    if (!arr.includes(name)) arr.push(name);
+    out.set(iso2, arr);
+  };
+
+  // 標準名を先に入れてから alt を足す（順序を安定させる）
+  for (const [key, value] of Object.entries(territories)) {
+    if (ISO_ALPHA2_RE.test(key)) push(key, value);
+  }
+  for (const [key, value] of Object.entries(territories)) {
+    const m = ALT_KEY_RE.exec(key);
+    if (m) push(m[1], value);
+  }
+  return out;
+}
+
+export async function fetchThemes() {
+  const territories = await readJaTerritories();
+
   const names = [];
+  const entityIds = {}; // name -> ISO2
   const seen = new Set();
 
   for (const [key, value] of Object.entries(territories)) {
@@ -53,6 +92,7 @@ export async function fetchThemes() {
     if (seen.has(name)) continue;
     seen.add(name);
     names.push(name);
+    entityIds[name] = key;
   }
 
   // deterministic order
@@ -64,7 +104,12 @@ export async function fetchThemes() {
       title: '世界の国',
       categoryId: 'geography',
       categoryTitle: '地理',
+      // カナの国名なのでローマ字入力も受け付ける
+      normalizeProfile: 'romaji',
+      // 200以上あるので既定は20個
+      defaultTarget: 20,
       answers: names,
+      entityIds,
     },
   ];
 }
@@ -0,0 +1,337 @@
+/**
+ * countries_capital_pairs.mjs
+ *
+ * 目的:
+ * - canonical 辞書（datasets/canonical/countries_base.json）から
+ *   「お題 -> 答え」の pairs テーマ（kind: "pairs"）を決定論的に生成する。
+ *   - 国 → 首都（prompt: label_ja / answers: 首都）
+ *   - 首都 → 国（prompt: 首都 / answers: label_ja + aliases_ja）
+ *
+ * ルール（決定論的）:
+ * - UN加盟国のうち、label_ja と capital が両方あるものだけ使う（欠損は推測しない）
+ * - continent 別にグルーピング（countries_derived_themes と同じ単位）
+ * - 首都の日本語名は CAPITAL_JA_MAP から引く。無い首都の国は出さずに WARN を出す（推測しない。マップに足す）
+ *   - 英語名は別表記として answers に残す（どちらで答えても正解）
+ * - items は prompt の昇順（安定性）。prompt が重複したら後のものを捨てる
+ * - items.length < 10 のテーマは生成しない
+ * - categoryId/categoryTitle は geography/地理
+ */
+
+import fs from 'node:fs/promises';
+import path from 'node:path';
+
+const CANONICAL_PATH = path.join(
+  process.cwd(),
+  'datasets',
+  'canonical',
+  'countries_base.json'
+);
+
+const MIN_ITEMS = 10;
+
+const CONTINENT_JA_MAP = {
+  Asia: 'アジア',
+  Europe: 'ヨーロッパ',
+  Africa: 'アフリカ',
+  Oceania: 'オセアニア',
+  'North America': '北アメリカ',
+  'South America': '南アメリカ',
+};
+
+// restcountries の capital（英語）-> 日本語名。UN加盟国の首都はすべて載せる（無いものはその国を出さない）
+const CAPITAL_JA_MAP = {
+  // アジア
+  Tokyo: '東京',
+  Beijing: '北京',
+  Seoul: 'ソウル',
+  Pyongyang: 'ピョンヤン',
+  'Ulan Bator': 'ウランバートル',
+  Jakarta: 'ジャカルタ',
+  Bangkok: 'バンコク',
+  Hanoi: 'ハノイ',
+  Manila: 'マニラ',
+  'Kuala Lumpur': 'クアラルンプール',
+  Singapore: 'シンガポール',
+  'Phnom Penh': 'プノンペン',
+  Vientiane: 'ビエンチャン',
+  Naypyidaw: 'ネピドー',
+  'Bandar Seri Begawan': 'バンダルスリブガワン',
+  Dili: 'ディリ',
+  'New Delhi': 'ニューデリー',
+  Islamabad: 'イスラマバード',
+  Dhaka: 'ダッカ',
+  Kathmandu: 'カトマンズ',
+  Thimphu: 'ティンプー',
+  'Malé': 'マレ',
+  Kabul: 'カブール',
+  Tehran: 'テヘラン',
+  Baghdad: 'バグダッド',
+  Riyadh: 'リヤド',
+  Ankara: 'アンカラ',
+  Amman: 'アンマン',
+  Damascus: 'ダマスカス',
+  Beirut: 'ベイルート',
+  Doha: 'ドーハ',
+  'Abu Dhabi': 'アブダビ',
+  Muscat: 'マスカット',
+  'Kuwait City': 'クウェート',
+  Manama: 'マナーマ',
+  Tashkent: 'タシケント',
+  Astana: 'アスタナ',
+  Bishkek: 'ビシュケク',
+  Dushanbe: 'ドゥシャンベ',
+  Ashgabat: 'アシガバート',
+  Tbilisi: 'トビリシ',
+  Yerevan: 'エレバン',
+  Baku: 'バクー',
+  Colombo: 'コロンボ',
+  Nicosia: 'ニコシア',
+  Jerusalem: 'エルサレム',
+  "Sana'a": 'サヌア',
+  // ヨーロッパ
+  London: 'ロンドン',
+  Paris: 'パリ',
+  Berlin: 'ベルリン',
+  Rome: 'ローマ',
+  Madrid: 'マドリード',
+  Lisbon: 'リスボン',
+  Amsterdam: 'アムステルダム',
+  Brussels: 'ブリュッセル',
+  Luxembourg: 'ルクセンブルク',
+  Vienna: 'ウィーン',
+  Bern: 'ベルン',
+  Stockholm: 'ストックホルム',
+  Oslo: 'オスロ',
+  Copenhagen: 'コペンハーゲン',
+  Helsinki: 'ヘルシンキ',
+  Reykjavik: 'レイキャビク',
+  Dublin: 'ダブリン',
+  Warsaw: 'ワルシャワ',
+  Prague: 'プラハ',
+  Bratislava: 'ブラチスラバ',
+  Budapest: 'ブダペスト',
+  Bucharest: 'ブカレスト',
+  Sofia: 'ソフィア',
+  Athens: 'アテネ',
+  Belgrade: 'ベオグラード',
+  Zagreb: 'ザグレブ',
+  Ljubljana: 'リュブリャナ',
+  Moscow: 'モスクワ',
+  Kyiv: 'キーウ',
+  Minsk: 'ミンスク',
+  Vilnius: 'ビリニュス',
+  Riga: 'リガ',
+  Tallinn: 'タリン',
+  Tirana: 'ティラナ',
+  'Andorra la Vella': 'アンドララベリャ',
+  Sarajevo: 'サラエボ',
+  Vaduz: 'ファドゥーツ',
+  Monaco: 'モナコ',
+  'Chișinău': 'キシナウ',
+  Skopje: 'スコピエ',
+  Valletta: 'バレッタ',
+  Podgorica: 'ポドゴリツァ',
+  'City of San Marino': 'サンマリノ',
+  'Vatican City': 'バチカン',
+  // 南北アメリカ
+  'Washington, D.C.': 'ワシントンD.C.',
+  Ottawa: 'オタワ',
+  'Mexico City': 'メキシコシティ',
+  Havana: 'ハバナ',
+  'Brasília': 'ブラジリア',
+  'Buenos Aires': 'ブエノスアイレス',
+  Santiago: 'サンティアゴ',
+  Lima: 'リマ',
+  'Bogotá': 'ボゴタ',
+  Caracas: 'カラカス',
+  Quito: 'キト',
+  Montevideo: 'モンテビデオ',
+  'Asunción': 'アスンシオン',
+  'Washington D.C.': 'ワシントンD.C.',
+  "Saint John's": 'セントジョンズ',
+  Nassau: 'ナッソー',
+  Belmopan: 'ベルモパン',
+  Sucre: 'スクレ',
+  Bridgetown: 'ブリッジタウン',
+  'San José': 'サンホセ',
+  Roseau: 'ロゾー',
+  'Santo Domingo': 'サントドミンゴ',
+  "St. George's": 'セントジョージズ',
+  'Guatemala City': 'グアテマラシティ',
+  Georgetown: 'ジョージタウン',
+  Tegucigalpa: 'テグシガルパ',
+  'Port-au-Prince': 'ポルトープランス',
+  Kingston: 'キングストン',
+  Basseterre: 'バセテール',
+  Castries: 'カストリーズ',
+  Managua: 'マナグア',
+  'Panama City': 'パナマシティ',
+  'San Salvador': 'サンサルバドル',
+  Paramaribo: 'パラマリボ',
+  'Port of Spain': 'ポートオブスペイン',
+  Kingstown: 'キングスタウン',
+  // オセアニア
+  Canberra: 'キャンベラ',
+  Wellington: 'ウェリントン',
+  Suva: 'スバ',
+  Palikir: 'パリキール',
+  'South Tarawa': 'タラワ',
+  Majuro: 'マジュロ',
+  Yaren: 'ヤレン',
+  Ngerulmud: 'マルキョク',
+  'Port Moresby': 'ポートモレスビー',
+  Honiara: 'ホニアラ',
+  "Nuku'alofa": 'ヌクアロファ',
+  Funafuti: 'フナフティ',
+  'Port Vila': 'ポートビラ',
+  Apia: 'アピア',
+  // アフリカ
+  Cairo: 'カイロ',
+  Nairobi: 'ナイロビ',
+  Pretoria: 'プレトリア',
+  Abuja: 'アブジャ',
+  'Addis Ababa': 'アディスアベバ',
+  Accra: 'アクラ',
+  Rabat: 'ラバト',
+  Algiers: 'アルジェ',
+  Tunis: 'チュニス',
+  Dakar: 'ダカール',
+  Kinshasa: 'キンシャサ',
+  Kampala: 'カンパラ',
+  Dodoma: 'ドドマ',
+  Luanda: 'ルアンダ',
+  Gitega: 'ギテガ',
+  'Porto-Novo': 'ポルトノボ',
+  Ouagadougou: 'ワガドゥグー',
+  Gaborone: 'ハボローネ',
+  Bangui: 'バンギ',
+  Yamoussoukro: 'ヤムスクロ',
+  'Yaoundé': 'ヤウンデ',
+  Brazzaville: 'ブラザビル',
+  Moroni: 'モロニ',
+  Praia: 'プライア',
+  Djibouti: 'ジブチ',
+  Asmara: 'アスマラ',
+  Libreville: 'リーブルビル',
+  Conakry: 'コナクリ',
+  Banjul: 'バンジュール',
+  Bissau: 'ビサウ',
+  Malabo: 'マラボ',
+  Monrovia: 'モンロビア',
+  Tripoli: 'トリポリ',
+  Maseru: 'マセル',
+  Antananarivo: 'アンタナナリボ',
+  Bamako: 'バマコ',
+  Maputo: 'マプト',
+  Nouakchott: 'ヌアクショット',
+  'Port Louis': 'ポートルイス',
+  Lilongwe: 'リロングウェ',
+  Windhoek: 'ウィントフック',
+  Niamey: 'ニアメ',
+  Kigali: 'キガリ',
+  Khartoum: 'ハルツーム',
+  Freetown: 'フリータウン',
+  Mogadishu: 'モガディシュ',
+  Juba: 'ジュバ',
+  'São Tomé': 'サントメ',
+  Lobamba: 'ロバンバ',
+  Victoria: 'ビクトリア',
+  "N'Djamena": 'ンジャメナ',
+  'Lomé': 'ロメ',
+  Lusaka: 'ルサカ',
+  Harare: 'ハラレ',
+};
+
+function toIdToken(s) {
+  return String(s)
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '');
+}
+
+function toThemes(continent, pairs, normalizeProfile) {
+  const continentJa = CONTINENT_JA_MAP[continent] ?? continent;
+  const token = toIdToken(continent);
+
+  const byPrompt = (a, b) => a.prompt.localeCompare(b.prompt, 'ja');
+  const dedupeByPrompt = (items) => {
+    const seen = new Set();
+    return items.filter((it) => {
+      if (seen.has(it.prompt)) return false;
+      seen.add(it.prompt);
+      return true;
+    });
+  };
+
+  const capitalOf = dedupeByPrompt(
+    pairs.map((p) => ({ prompt: p.country, answers: [p.capitalLabel, p.capitalEn] })).sort(byPrompt)
+  );
+  const countryOf = dedupeByPrompt(
+    pairs.map((p) => ({ prompt: p.capitalLabel, answers: [p.country, ...p.countryAliases] })).sort(byPrompt)
+  );
+
+  const base = { categoryId: 'geography', categoryTitle: '地理', kind: 'pairs', normalizeProfile };
+  return [
+    { ...base, id: `pairs_capital_of_${token}`, title: `${continentJa}の国 → 首都`, items: capitalOf },
+    { ...base, id: `pairs_country_of_capital_${token}`, title: `${continentJa}の首都 → 国`, items: countryOf },
+  ].filter((t) => t.items.length >= MIN_ITEMS);
+}
+
+export async function fetchThemes() {
+  let json;
+  try {
+    json = JSON.parse(await fs.readFile(CANONICAL_PATH, 'utf8'));
+  } catch (e) {
+    throw new Error(
+      `countries_base（canonical）を読み込めませんでした。先に canonical を生成してください。` +
+        `\n- 期待パス: ${CANONICAL_PATH}` +
+        `\n- 対処: npm run datasets:generate` +
+        `\n- 原因: ${String(e)}`
+    );
+  }
+
+  const entities = json?.entities;
+  if (!Array.isArray(entities)) {
+    throw new Error(`countries_base の形式が不正です（entities が配列ではありません）: ${CANONICAL_PATH}`);
+  }
+
+  // 国名/首都名（カナ）なのでローマ字入力も受け付ける
+  const normalizeProfile = 'romaji';
+
+  const byContinent = new Map(); // continent -> { country, countryAliases, capitalLabel, capitalEn }[]
+  const unmapped = [];
+  for (const e of entities) {
+    if (e?.unMember !== true) continue;
+
+    const country = typeof e?.label_ja === 'string' ? e.label_ja.trim() : '';
+    const capitalEn = typeof e?.capital === 'string' ? e.capital.trim() : '';
+    const continent = typeof e?.continent === 'string' ? e.continent : '';
+    if (!country || !capitalEn || !continent) continue;
+
+    const countryAliases = Array.isArray(e?.aliases_ja)
+      ? e.aliases_ja.filter((a) => typeof a === 'string' && a.trim() !== '')
+      : [];
+    const capitalLabel = CAPITAL_JA_MAP[capitalEn];
+    if (!capitalLabel) {
+      unmapped.push(`${capitalEn}（${country}）`);
+      continue;
+    }
+
+    const list = byContinent.get(continent) ?? [];
+    list.push({ country, countryAliases, capitalLabel, capitalEn });
+    byContinent.set(continent, list);
+  }
+
+  if (unmapped.length > 0) {
+    // eslint-disable-next-line no-console
+    console.warn(
+      `WARN: CAPITAL_JA_MAP に日本語名が無い首都の国を除外しました（${unmapped.length}件）: ${unmapped.join(', ')}`
+    );
+  }
+
+  const themes = [];
+  for (const continent of [...byContinent.keys()].sort()) {
+    themes.push(...toThemes(continent, byContinent.get(continent), normalizeProfile));
+  }
+  return themes;
+}
@@ -11,6 +11,7 @@
  *   - char: 先頭1文字（表示上の文字）
  *   - row: 五十音の行（あ行/か行/...） ※簡易判定でOK
  * - answers は label_ja を使う（空は除外）
+ * - entityIds（label_ja -> ISO2）も一緒に出す（英語名での回答用）
  * - answers は重複除去→昇順ソート（安定性）
  * - answers.length < 10 のテーマは生成しない
  * - id は衝突しない規則的命名（snake_case）
@@ -231,6 +232,8 @@ export async function fetchThemes() {
 
   const categoryId = 'geography';
   const categoryTitle = '地理';
+  // 国名（カナ）テーマなのでローマ字入力も受け付ける
+  const normalizeProfile = 'romaji';
 
   // Extract label_ja for each grouping key.
   const byContinent = new Map(); // continent -> string[]
@@ -238,6 +241,7 @@ export async function fetchThemes() {
   const byLandlocked = new Map(); // boolean -> string[]
   const byInitialChar = new Map(); // initial(char) -> string[]
   const byInitialRow = new Map(); // rowToken -> string[]
+  const entityIdByLabel = {}; // label_ja -> ISO2
 
   for (const e of entities) {
     // UN加盟国に寄せる（欠損/null/false は除外）
@@ -245,6 +249,7 @@ export async function fetchThemes() {
 
     const labelJa = typeof e?.label_ja === 'string' ? e.label_ja.trim() : '';
     if (!labelJa) continue;
+    if (typeof e?.id === 'string' && !entityIdByLabel[labelJa]) entityIdByLabel[labelJa] = e.id;
 
     const continent = typeof e?.continent === 'string' ? e.continent : null;
     const subregion = typeof e?.region === 'string' ? e.region : null; // canonical uses "region" for subregion
@@ -280,6 +285,14 @@ export async function fetchThemes() {
     }
   }
 
+  const pickEntityIds = (answers) => {
+    const out = {};
+    for (const a of answers) {
+      if (entityIdByLabel[a]) out[a] = entityIdByLabel[a];
+    }
+    return out;
+  };
+
   const themes = [];
 
   // a) continent themes
@@ -295,7 +308,9 @@ export async function fetchThemes() {
       title: `${label}の国連加盟国`,
       categoryId,
       categoryTitle,
+      normalizeProfile,
       answers,
+      entityIds: pickEntityIds(answers),
     });
   }
 
@@ -312,7 +327,9 @@ export async function fetchThemes() {
       title: `${label}の国連加盟国`,
       categoryId,
       categoryTitle,
+      normalizeProfile,
       answers,
+      entityIds: pickEntityIds(answers),
     });
   }
 
@@ -326,7 +343,9 @@ export async function fetchThemes() {
       title: isLandlocked ? '内陸の国連加盟国' : '沿岸の国連加盟国',
       categoryId,
       categoryTitle,
+      normalizeProfile,
       answers,
+      entityIds: pickEntityIds(answers),
     });
   }
 
@@ -344,7 +363,9 @@ export async function fetchThemes() {
       title: `${initial}で始まる国連加盟国`,
       categoryId,
       categoryTitle,
+      normalizeProfile,
       answers,
+      entityIds: pickEntityIds(answers),
     });
   }
 
@@ -360,7 +381,9 @@ export async function fetchThemes() {
       title: `${row.rep}（${row.nameJa}）で始まる国連加盟国`,
       categoryId,
       categoryTitle,
+      normalizeProfile,
       answers,
+      entityIds: pickEntityIds(answers),
     });
   }
 
@@ -4,7 +4,8 @@
  *   export async function fetchThemes(): Promise<ThemeSpec[]>
  *
  * ThemeSpec:
- *   { id, title, categoryId, categoryTitle, answers: string[] }
+ *   { id, title, categoryId, categoryTitle, answers: string[], aliases?, readings? }
+ *   - readings: { [answer]: string[] }（漢字の答えの読み。かなで入力しても正解になる）
  */
 
 export async function fetchThemes() {
@@ -22,6 +23,14 @@ export async function fetchThemes() {
       categoryId: 'demo',
       categoryTitle: 'デモ',
       answers: ['赤', '青', '緑', '黄', '黒', '白', '青'],
+      readings: {
+        赤: ['あか'],
+        青: ['あお'],
+        緑: ['みどり'],
+        黄: ['き', 'きいろ'],
+        黒: ['くろ'],
+        白: ['しろ'],
+      },
     },
   ];
 }
@@ -2,7 +2,8 @@ import * as demo from './demo.mjs';
 import * as cldrJaTerritories from './cldr_ja_territories.mjs';
 import * as restCountriesBase from './rest_countries_base.mjs';
 import * as countriesDerivedThemes from './countries_derived_themes.mjs';
+import * as countriesCapitalPairs from './countries_capital_pairs.mjs';
 
-export const SOURCES = [demo, cldrJaTerritories, restCountriesBase, countriesDerivedThemes];
+export const SOURCES = [demo, cldrJaTerritories, restCountriesBase, countriesDerivedThemes, countriesCapitalPairs];
 
 
@@ -3,18 +3,51 @@
  * This runs at generation time only (NOT at app runtime).
  *
  * Endpoint: https://restcountries.com/v3.1/all
+ *
+ * REST Countries に届かない環境では、前回生成した datasets/canonical/countries_base.json の
+ * 国データを使い、別名（CLDR）だけ付け直す（WARN を出す。前回の canonical も無ければ失敗）。
+ * 前回の canonical に無い unMember / capital は node_modules の world-countries
+ * （REST Countries の元データ mledoze/countries）から埋める。
  */
 
+import fs from 'node:fs/promises';
+import path from 'node:path';
+
+import { collectJaNamesByIso2, readJaTerritories } from './cldr_ja_territories.mjs';
+
 // REST Countries now requires `fields` query.
 const ENDPOINT =
   'https://restcountries.com/v3.1/all?fields=cca2,name,translations,continents,subregion,landlocked,unMember,capital';
 const ISO2_RE = /^[A-Z]{2}$/;
 
+const PREVIOUS_PATH = path.join(process.cwd(), 'datasets', 'canonical', 'countries_base.json');
+
 function asTrimmedString(x) {
   return typeof x === 'string' ? x.trim() : '';
 }
 
-export async function fetchDatasets() {
+/**
+ * 前回生成した countries_base の entities（REST Countries に届かないとき用）。
+ * 読めなければ fetch の失敗 `cause` をそのまま投げる。
+ */
+async function readPreviousEntities(cause) {
+  let json;
+  try {
+    json = JSON.parse(await fs.readFile(PREVIOUS_PATH, 'utf8'));
+  } catch {
+    throw cause;
+  }
+  if (!Array.isArray(json?.entities)) throw cause;
+
+  // eslint-disable-next-line no-console
+  console.warn(
+    `WARN: REST Countries に届かないため、前回の countries_base を元に生成します（別名は CLDR から付け直します）` +
+      `\n- ${String(cause?.message ?? cause).split('\n')[0]}`
+  );
+  return json.entities;
+}
+
+async function fetchRestCountries() {
   // NOTE:
   // - ここは「生成時」にだけ呼ばれる。アプリ実行時には外部通信しない。
   // - 将来API仕様が変わっても、失敗理由が分かるようにエラーを厚めにしている。
@@ -43,51 +76,106 @@ export async function fetchDatasets() {
   if (!Array.isArray(data)) {
     throw new Error('REST Countries の形式が想定と違います（配列ではありません）');
   }
+  return data;
+}
 
-  const byIso2 = new Map(); // ISO2 -> entity
+/** REST Countries の1件 -> entity（別名なし）。ISO2/英語名が無いものは null */
+function toEntity(c) {
+  // cca2（ISO2）が無い/不正なものは canonical としてキーにできないので除外する
+  const iso2 = asTrimmedString(c?.cca2);
+  if (!ISO2_RE.test(iso2)) return null;
+
+  // 英語名は canonical として必須。日本語名はあれば使い、無ければ英語で埋める。
+  const labelEn = asTrimmedString(c?.name?.common);
+  if (!labelEn) return null;
+  const labelJa = asTrimmedString(c?.translations?.jpn?.common) || labelEn;
+
+  return {
+    id: iso2,
+    label_ja: labelJa,
+    label_en: labelEn,
+    // continent/subregion は無い場合があるので null に落とす
+    continent: asTrimmedString(c?.continents?.[0]) || null,
+    region: asTrimmedString(c?.subregion) || null,
+    landlocked: Boolean(c?.landlocked),
+    // 欠損を false にしない（存在しない場合は null）
+    unMember: typeof c?.unMember === 'boolean' ? c.unMember : null,
+    // 首都（欠損は null、推測しない）
+    capital:
+      Array.isArray(c?.capital) && typeof c.capital[0] === 'string' ? asTrimmedString(c.capital[0]) || null : null,
+  };
+}
+
+/**
+ * world-countries（REST Countries と同じ形の配列）の ISO2 -> entity。
+ * 読めなければ WARN を出して空 Map（unMember / capital は null のまま）。
+ */
+async function readWorldCountries() {
+  const filePath = path.join(process.cwd(), 'node_modules', 'world-countries', 'countries.json');
+  let data;
+  try {
+    data = JSON.parse(await fs.readFile(filePath, 'utf8'));
+  } catch (e) {
+    // eslint-disable-next-line no-console
+    console.warn(
+      `WARN: world-countries を読み込めないため、unMember / capital は前回の countries_base のままにします` +
+        `\n- 期待パス: ${filePath}` +
+        `\n- 対処: npm install` +
+        `\n- 原因: ${String(e)}`
+    );
+    return new Map();
+  }
+  const out = new Map();
+  for (const entity of (Array.isArray(data) ? data : []).map(toEntity)) {
+    if (entity) out.set(entity.id, entity);
+  }
+  return out;
+}
 
-  for (const c of data) {
-    // cca2（ISO2）が無い/不正なものは canonical としてキーにできないので除外する
-    const iso2 = asTrimmedString(c?.cca2);
-    if (!iso2) continue;
-    if (!ISO2_RE.test(iso2)) continue;
+/**
+ * 前回の countries_base の1件 -> entity（別名なし）。ISO2/英語名が無いものは null。
+ * unMember / capital が無ければ `world`（readWorldCountries）から埋める。
+ */
+function toPreviousEntity(e, world) {
+  const iso2 = asTrimmedString(e?.id);
+  const labelEn = asTrimmedString(e?.label_en);
+  if (!ISO2_RE.test(iso2) || !labelEn) return null;
+  const fallback = world.get(iso2);
+  return {
+    id: iso2,
+    label_ja: asTrimmedString(e?.label_ja) || labelEn,
+    label_en: labelEn,
+    continent: asTrimmedString(e?.continent) || null,
+    region: asTrimmedString(e?.region) || null,
+    landlocked: Boolean(e?.landlocked),
+    unMember: typeof e?.unMember === 'boolean' ? e.unMember : fallback?.unMember ?? null,
+    capital: asTrimmedString(e?.capital) || fallback?.capital || null,
+  };
+}
 
-    if (byIso2.has(iso2)) {
-      throw new Error(`REST Countries: cca2 が重複しています: "${iso2}"`);
-    }
+export async function fetchDatasets() {
+  let entitiesIn;
+  try {
+    entitiesIn = (await fetchRestCountries()).map(toEntity);
+  } catch (e) {
+    const previous = await readPreviousEntities(e);
+    const world = await readWorldCountries();
+    entitiesIn = previous.map((p) => toPreviousEntity(p, world));
+  }
 
-    // 英語名は canonical として必須。日本語名はあれば使い、無ければ英語で埋める。
-    const labelEn = asTrimmedString(c?.name?.common);
-    const labelJa =
-      asTrimmedString(c?.translations?.jpn?.common) || labelEn;
+  // 日本語の別名（CLDR 標準名 / 短縮名 / 異表記）。テーマの alias 自動付与に使う。
+  const cldrNamesByIso2 = collectJaNamesByIso2(await readJaTerritories());
 
-    if (!labelEn) {
-      // without English canonical name, skip
-      continue;
-    }
+  const byIso2 = new Map(); // ISO2 -> entity
 
-    // continent/subregion は無い場合があるので null に落とす
-    const continent = asTrimmedString(c?.continents?.[0]) || null;
-    const region = asTrimmedString(c?.subregion) || null;
-    const landlocked = Boolean(c?.landlocked);
-    // 欠損を false にしない（存在しない場合は null）
-    const unMember = typeof c?.unMember === 'boolean' ? c.unMember : null;
-    // 首都（欠損は null、推測しない）
-    const capital =
-      Array.isArray(c?.capital) && typeof c.capital[0] === 'string'
-        ? asTrimmedString(c.capital[0]) || null
-        : null;
-
-    byIso2.set(iso2, {
-      id: iso2,
-      label_ja: labelJa,
-      label_en: labelEn,
-      continent,
-      region,
-      landlocked,
-      unMember,
-      capital,
-    });
+  for (const entity of entitiesIn) {
+    if (!entity) continue;
+    if (byIso2.has(entity.id)) {
+      throw new Error(`REST Countries: cca2 が重複しています: "${entity.id}"`);
+    }
+    // label_ja 自身は別名に含めない
+    const aliasesJa = (cldrNamesByIso2.get(entity.id) ?? []).filter((n) => n !== entity.label_ja);
+    byIso2.set(entity.id, { ...entity, aliases_ja: aliasesJa });
   }
 
   const entities = Array.from(byIso2.values()).sort((a, b) => a.id.localeCompare(b.id));
@@ -71,7 +71,7 @@ function resolveAllCountries(ctx: ExplainContext): string[] {
 
   // 2) フォールバック: themes registry から answers を引く
   const found = THEMES.find((t) => t.dataset?.id === ctx.themeId || t.id === ctx.themeId);
-  const answers = found?.dataset?.answers;
+  const answers = found?.dataset?.kind === 'list' ? found.dataset.answers : null;
   return Array.isArray(answers) ? uniqPreserveOrder(answers) : [];
 }
 
@@ -0,0 +1,49 @@
+import * as DocumentPicker from 'expo-document-picker';
+import { File, Paths } from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+import { Platform } from 'react-native';
+
+/**
+ * Backup files in and out of the app (the contents are backup.ts).
+ * iOS / Android: written to the cache directory and handed to the share sheet. Web: downloaded.
+ */
+
+/** Hand `json` to the user as `fileName`. */
+export async function exportBackupFile(fileName: string, json: string): Promise<void> {
+  if (Platform.OS === 'web') {
+    const url = URL.createObjectURL(new Blob([json], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+    return;
+  }
+
+  if (!(await Sharing.isAvailableAsync())) {
+    throw new Error('この端末ではファイルを共有できません');
+  }
+  const file = new File(Paths.cache, fileName);
+  file.create({ overwrite: true });
+  file.write(json);
+  await Sharing.shareAsync(file.uri, {
+    mimeType: 'application/json',
+    UTI: 'public.json',
+    dialogTitle: '記録のバックアップ',
+  });
+}
+
+/** Text of a file the user picks, or null when they cancel. */
+export async function pickBackupFile(): Promise<string | null> {
+  const picked = await DocumentPicker.getDocumentAsync({
+    // Android often reports a downloaded .json as octet-stream, so any file is offered there (parseBackup checks it)
+    type: Platform.OS === 'android' ? '*/*' : 'application/json',
+    copyToCacheDirectory: true,
+  });
+  if (picked.canceled) return null;
+  const asset = picked.assets[0];
+  if (!asset) return null;
+  // web: the browser's File
+  if (asset.file) return asset.file.text();
+  return new File(asset.uri).text();
+}
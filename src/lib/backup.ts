@@ -0,0 +1,253 @@
+import { loadFavorites, parseFavorites, saveFavorites, updateFavorites } from '@/src/lib/favorites';
+import {
+  loadGoalSettings,
+  parseGoalSettings,
+  saveGoalSettings,
+  updateGoalSettings,
+  type DailyGoal,
+  type GoalSettingsV1,
+} from '@/src/lib/goals';
+import {
+  loadMultiplayerStore,
+  parseMultiplayerStore,
+  saveMultiplayerStore,
+  updateMultiplayerStore,
+  type MatchRecord,
+  type MultiplayerStoreV1,
+} from '@/src/lib/multiplayer';
+import {
+  deriveStats,
+  loadRecords,
+  mergeRecords,
+  parseRecords,
+  saveRecords,
+  updateRecords,
+  type PlayRecordsV3,
+} from '@/src/lib/records';
+import {
+  loadReviewStore,
+  parseReviewStore,
+  saveReviewStore,
+  updateReviewStore,
+  type ReviewStoreV1,
+} from '@/src/lib/review';
+
+/**
+ * Backup file: every saved store (records, review, favorites, multiplayer, goals) in one versioned JSON,
+ * to move the data to another device or keep it over a reinstall. The in-progress quiz is left out.
+ * Importing validates the whole file first, then merges it into the data on this device or replaces it.
+ */
+export type BackupData = {
+  records: PlayRecordsV3;
+  review: ReviewStoreV1;
+  favorites: string[];
+  multiplayer: MultiplayerStoreV1;
+  goals: GoalSettingsV1;
+};
+
+export type BackupFileV1 = {
+  app: typeof BACKUP_APP;
+  backupVersion: 1;
+  exportedAt: number;
+  data: BackupData;
+};
+
+export type ImportMode = 'merge' | 'replace';
+
+/** What a set of data holds, for the import preview */
+export type BackupSummary = {
+  /** plays / perfects as on the record screen */
+  plays: number;
+  perfects: number;
+  /** plays with per-play data (records log) */
+  loggedPlays: number;
+  dailyDays: number;
+  reviewCards: number;
+  favorites: number;
+  matches: number;
+  goal: DailyGoal;
+};
+
+export type ImportPreview = {
+  exportedAt: number;
+  current: BackupSummary;
+  /** after 'merge' */
+  merged: BackupSummary;
+  /** after 'replace' (= the file) */
+  replaced: BackupSummary;
+};
+
+/** Version of the backup file format (the stores inside carry their own versions, e.g. records v3) */
+export const BACKUP_VERSION = 1;
+
+const BACKUP_APP = 'vocab-train';
+
+function isRecord(x: unknown): x is Record<string, any> {
+  return !!x && typeof x === 'object' && !Array.isArray(x);
+}
+
+/** vocab-train-backup-2026-10-18.json */
+export function backupFileName(date: string): string {
+  return `${BACKUP_APP}-backup-${date}.json`;
+}
+
+/** Everything saved on this device. Throws when the records were saved by a newer app (see loadRecords). */
+export async function collectBackup(): Promise<BackupFileV1> {
+  const [records, review, favorites, multiplayer, goals] = await Promise.all([
+    loadRecords(),
+    loadReviewStore(),
+    loadFavorites(),
+    loadMultiplayerStore(),
+    loadGoalSettings(),
+  ]);
+  return {
+    app: BACKUP_APP,
+    backupVersion: BACKUP_VERSION,
+    exportedAt: Date.now(),
+    data: { records, review, favorites, multiplayer, goals },
+  };
+}
+
+export function serializeBackup(backup: BackupFileV1): string {
+  return JSON.stringify(backup);
+}
+
+/**
+ * Read and validate a backup file. Throws an Error with a message for the user when it can't be imported.
+ * Entries of the wrong shape inside a store are dropped (like a load of that store); a store missing from
+ * the file counts as empty.
+ */
+export function parseBackup(text: string): BackupFileV1 {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('JSON として読めないファイルです');
+  }
+  if (!isRecord(parsed) || parsed.app !== BACKUP_APP) {
+    throw new Error('このアプリのバックアップファイルではありません');
+  }
+  if (typeof parsed.backupVersion !== 'number' || parsed.backupVersion > BACKUP_VERSION) {
+    throw new Error('新しいバージョンのアプリで書き出されたファイルです。アプリを更新してから読み込んでください');
+  }
+  if (!isRecord(parsed.data)) {
+    throw new Error('バックアップの中身がありません');
+  }
+
+  const { data } = parsed;
+  let records: PlayRecordsV3;
+  try {
+    records = parseRecords(data.records);
+  } catch {
+    throw new Error('新しいバージョンのアプリで保存された記録です。アプリを更新してから読み込んでください');
+  }
+  return {
+    app: BACKUP_APP,
+    backupVersion: BACKUP_VERSION,
+    exportedAt: typeof parsed.exportedAt === 'number' ? parsed.exportedAt : 0,
+    data: {
+      records,
+      review: parseReviewStore(data.review),
+      favorites: parseFavorites(data.favorites),
+      multiplayer: parseMultiplayerStore(data.multiplayer),
+      goals: parseGoalSettings(data.goals),
+    },
+  };
+}
+
+function matchKey(m: MatchRecord): string {
+  return `${m.playedAt}\n${m.themeId}`;
+}
+
+/** Per answer, the card reviewed last */
+function mergeReview(current: ReviewStoreV1, incoming: ReviewStoreV1): ReviewStoreV1 {
+  const cards = { ...current.cards };
+  for (const [key, card] of Object.entries(incoming.cards)) {
+    const mine = cards[key];
+    if (!mine || card.lastReviewed > mine.lastReviewed) cards[key] = card;
+  }
+  return { cards, updatedAt: Math.max(current.updatedAt, incoming.updatedAt) };
+}
+
+/** Both lists, current order first */
+function mergeFavorites(current: string[], incoming: string[]): string[] {
+  return [...new Set([...current, ...incoming])];
+}
+
+/** Matches of both without duplicates; player names of the newer save */
+function mergeMultiplayer(current: MultiplayerStoreV1, incoming: MultiplayerStoreV1): MultiplayerStoreV1 {
+  const matches = new Map(current.matches.map((m) => [matchKey(m), m]));
+  for (const m of incoming.matches) if (!matches.has(matchKey(m))) matches.set(matchKey(m), m);
+  const newerPlayers = incoming.updatedAt > current.updatedAt ? incoming : current;
+  return {
+    matches: [...matches.values()].sort((a, b) => a.playedAt - b.playedAt),
+    lastPlayers: newerPlayers.lastPlayers.length > 0 ? newerPlayers.lastPlayers : current.lastPlayers,
+    updatedAt: Math.max(current.updatedAt, incoming.updatedAt),
+  };
+}
+
+function mergeGoals(current: GoalSettingsV1, incoming: GoalSettingsV1): GoalSettingsV1 {
+  return incoming.updatedAt > current.updatedAt ? incoming : current;
+}
+
+/**
+ * `incoming` added to `current`:
+ * - records: see mergeRecords (no play counted twice: one baseline per origin, the play log without duplicates)
+ * - review: per answer, the card reviewed last
+ * - favorites: both, current order first
+ * - multiplayer: matches of both without duplicates; player names of the newer save
+ * - goals: the newer save
+ */
+export function mergeBackupData(current: BackupData, incoming: BackupData): BackupData {
+  return {
+    records: mergeRecords(current.records, incoming.records),
+    review: mergeReview(current.review, incoming.review),
+    favorites: mergeFavorites(current.favorites, incoming.favorites),
+    multiplayer: mergeMultiplayer(current.multiplayer, incoming.multiplayer),
+    goals: mergeGoals(current.goals, incoming.goals),
+  };
+}
+
+export function summarizeBackupData(data: BackupData): BackupSummary {
+  const stats = deriveStats(data.records);
+  return {
+    plays: stats.plays,
+    perfects: stats.perfects,
+    loggedPlays: data.records.log.length,
+    dailyDays: Object.keys(stats.dailyResults).length,
+    reviewCards: Object.keys(data.review.cards).length,
+    favorites: data.favorites.length,
+    matches: data.multiplayer.matches.length,
+    goal: data.goals.goal,
+  };
+}
+
+export function previewImport(current: BackupData, backup: BackupFileV1): ImportPreview {
+  return {
+    exportedAt: backup.exportedAt,
+    current: summarizeBackupData(current),
+    merged: summarizeBackupData(mergeBackupData(current, backup.data)),
+    replaced: summarizeBackupData(backup.data),
+  };
+}
+
+/**
+ * Save the imported data: merged into what is on this device, or in place of it.
+ * A merge reads and writes each store in its write queue, so a play saved meanwhile is not lost.
+ */
+export async function applyBackup(backup: BackupFileV1, mode: ImportMode): Promise<void> {
+  const data = backup.data;
+  if (mode === 'replace') {
+    await saveRecords(data.records);
+    await saveReviewStore(data.review);
+    await saveFavorites(data.favorites);
+    await saveMultiplayerStore(data.multiplayer);
+    await saveGoalSettings({ goal: data.goals.goal, reminder: data.goals.reminder });
+    return;
+  }
+  await updateRecords((current) => mergeRecords(current, data.records));
+  await updateReviewStore((current) => mergeReview(current, data.review));
+  await updateFavorites((current) => mergeFavorites(current, data.favorites));
+  await updateMultiplayerStore((current) => mergeMultiplayer(current, data.multiplayer));
+  await updateGoalSettings((current) => mergeGoals(current, data.goals));
+}
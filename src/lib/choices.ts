@@ -0,0 +1,85 @@
+import type { ThemeMeta } from '@/datasets/themes';
+import { getCountryJapaneseNames } from '@/src/lib/countries';
+import { buildAnswerIndex, isNearMiss, type GradeOptions } from '@/src/lib/grading';
+import { normalizeAnswer } from '@/src/lib/normalize';
+
+/** Theme "family": the first two id segments (countries_subregion_xxx -> countries_subregion) */
+function themeFamily(id: string): string {
+  return id.split('_').slice(0, 2).join('_');
+}
+
+function isCountryTheme(theme: ThemeMeta): boolean {
+  const d = theme.dataset;
+  return theme.id.startsWith('countries_') || (d.kind === 'list' && Object.keys(d.entityIds).length > 0);
+}
+
+/**
+ * Wrong candidates for multiple-choice mode, most related first:
+ * 1) answers of sibling themes of the same family (other countries_subregion_* ...)
+ * 2) answers of other themes in the same category
+ * 3) for country themes: countries_base names that are not answers of the theme
+ *
+ * Anything the theme would grade as correct (answer, alias, reading, entity name under
+ * the theme's normalization) is left out, and so is anything within near-miss distance of one
+ * (オーストリア for オーストラリア), so a distractor can never score, even under a score/half policy.
+ */
+export function buildDistractorPool(
+  theme: ThemeMeta,
+  themes: ThemeMeta[],
+  options: Pick<GradeOptions, 'aliases' | 'readings' | 'entityIds' | 'entityNames' | 'profile'> = {}
+): string[] {
+  if (theme.dataset.kind !== 'list') return [];
+
+  const correctIndex = buildAnswerIndex(theme.dataset.answers, options);
+  const family = themeFamily(theme.id);
+  const siblings = themes.filter(
+    (t) => t.id !== theme.id && t.categoryId === theme.categoryId && t.dataset.kind === 'list'
+  );
+  const sameFamily = siblings.filter((t) => themeFamily(t.id) === family);
+  const otherSiblings = siblings.filter((t) => themeFamily(t.id) !== family);
+
+  const sources: string[][] = [
+    ...sameFamily.map((t) => (t.dataset.kind === 'list' ? t.dataset.answers : [])),
+    ...otherSiblings.map((t) => (t.dataset.kind === 'list' ? t.dataset.answers : [])),
+    isCountryTheme(theme) ? getCountryJapaneseNames() : [],
+  ];
+
+  const pool: string[] = [];
+  const seen = new Set<string>();
+  for (const names of sources) {
+    for (const name of names) {
+      const norm = normalizeAnswer(name, options.profile);
+      if (!norm || seen.has(norm) || correctIndex.has(norm) || isNearMiss(norm, correctIndex)) continue;
+      seen.add(norm);
+      pool.push(name);
+    }
+  }
+  return pool;
+}
+
+function shuffle<T>(arr: T[], random: () => number): T[] {
+  const out = [...arr];
+  for (let i = out.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [out[i], out[j]] = [out[j], out[i]];
+  }
+  return out;
+}
+
+/**
+ * Candidates of one multiple-choice round: `correctCount` random answers plus about as many
+ * distractors, shuffled together. Distractors are drawn from the front half of the pool
+ * (the most related ones) when the pool is large enough.
+ */
+export function buildChoiceRound(
+  answers: string[],
+  distractorPool: string[],
+  correctCount: number,
+  random: () => number = Math.random
+): string[] {
+  const correct = shuffle(answers, random).slice(0, correctCount);
+  const wrongCount = Math.min(distractorPool.length, Math.max(3, correctCount));
+  const nearPool = distractorPool.slice(0, Math.max(wrongCount, Math.ceil(distractorPool.length / 2)));
+  const wrong = shuffle(nearPool, random).slice(0, wrongCount);
+  return shuffle([...correct, ...wrong], random);
+}
@@ -0,0 +1,126 @@
+import countriesBase from '@/datasets/canonical/countries_base.json';
+
+type CountriesBaseEntity = {
+  id?: string;
+  label_ja?: string;
+  label_en?: string;
+  continent?: string;
+  /** subregion (e.g. Western Asia) */
+  region?: string;
+  landlocked?: boolean;
+};
+
+let englishNamesById: Record<string, string[]> | null = null;
+
+/**
+ * ISO2 -> English names (label_en) from canonical countries_base.
+ * Used with a theme's `entityIds` to accept answers in English (Germany -> ドイツ).
+ */
+export function getCountryEnglishNames(): Record<string, string[]> {
+  if (englishNamesById) return englishNamesById;
+
+  const out: Record<string, string[]> = {};
+  const entities = (countriesBase as any)?.entities as unknown;
+  if (Array.isArray(entities)) {
+    for (const e of entities as CountriesBaseEntity[]) {
+      const id = typeof e?.id === 'string' ? e.id : '';
+      const name = typeof e?.label_en === 'string' ? e.label_en.trim() : '';
+      if (!id || !name) continue;
+      out[id] = [name];
+    }
+  }
+
+  englishNamesById = out;
+  return out;
+}
+
+let japaneseNames: string[] | null = null;
+
+/** Japanese country names (label_ja) of every canonical entity, in canonical order. */
+export function getCountryJapaneseNames(): string[] {
+  if (japaneseNames) return japaneseNames;
+
+  const out: string[] = [];
+  const entities = (countriesBase as any)?.entities as unknown;
+  if (Array.isArray(entities)) {
+    for (const e of entities as CountriesBaseEntity[]) {
+      const name = typeof e?.label_ja === 'string' ? e.label_ja.trim() : '';
+      if (name) out.push(name);
+    }
+  }
+
+  japaneseNames = out;
+  return out;
+}
+
+export type CountryFacts = {
+  continent?: string;
+  /** subregion (e.g. Western Asia) */
+  region?: string;
+  landlocked?: boolean;
+};
+
+let factsById: Record<string, CountryFacts> | null = null;
+
+/** ISO2 -> continent / subregion (English, as in countries_base) and landlocked. null when the id is unknown. */
+export function getCountryFacts(id: string): CountryFacts | null {
+  if (!factsById) {
+    const out: Record<string, CountryFacts> = {};
+    const entities = (countriesBase as any)?.entities as unknown;
+    if (Array.isArray(entities)) {
+      for (const e of entities as CountriesBaseEntity[]) {
+        if (typeof e?.id !== 'string' || !e.id) continue;
+        out[e.id] = {
+          continent: typeof e.continent === 'string' ? e.continent : undefined,
+          region: typeof e.region === 'string' ? e.region : undefined,
+          landlocked: typeof e.landlocked === 'boolean' ? e.landlocked : undefined,
+        };
+      }
+    }
+    factsById = out;
+  }
+  return factsById[id] ?? null;
+}
+
+const CONTINENT_JA: Record<string, string> = {
+  Asia: 'アジア',
+  Europe: 'ヨーロッパ',
+  Africa: 'アフリカ',
+  Oceania: 'オセアニア',
+  'North America': '北アメリカ',
+  'South America': '南アメリカ',
+  Antarctica: '南極',
+};
+
+const REGION_JA: Record<string, string> = {
+  'Eastern Africa': '東アフリカ',
+  'Middle Africa': '中部アフリカ',
+  'Northern Africa': '北アフリカ',
+  'Southern Africa': '南部アフリカ',
+  'Western Africa': '西アフリカ',
+  'Central Asia': '中央アジア',
+  'Eastern Asia': '東アジア',
+  'South-Eastern Asia': '東南アジア',
+  'Southern Asia': '南アジア',
+  'Western Asia': '西アジア',
+  'Central Europe': '中央ヨーロッパ',
+  'Eastern Europe': '東ヨーロッパ',
+  'Northern Europe': '北ヨーロッパ',
+  'Southeast Europe': '南東ヨーロッパ',
+  'Southern Europe': '南ヨーロッパ',
+  'Western Europe': '西ヨーロッパ',
+  Caribbean: 'カリブ',
+  'Central America': '中央アメリカ',
+  'North America': '北アメリカ',
+  'South America': '南アメリカ',
+  'Australia and New Zealand': 'オーストラリア・ニュージーランド',
+  Melanesia: 'メラネシア',
+  Micronesia: 'ミクロネシア',
+  Polynesia: 'ポリネシア',
+};
+
+/** Japanese name of the subregion, else of the continent (null when neither is known). */
+export function countryPlaceLabel(facts: CountryFacts | null): string | null {
+  if (!facts) return null;
+  return (facts.region && REGION_JA[facts.region]) || (facts.continent && CONTINENT_JA[facts.continent]) || null;
+}
@@ -0,0 +1,109 @@
+import type { ThemeMeta } from '@/datasets/themes';
+import type { TargetCount } from '@/src/lib/target';
+
+/**
+ * Daily challenge: one theme per date, the same for everyone (same date + same THEMES = same challenge).
+ * - the theme is drawn with a PRNG seeded from the date and the sorted theme ids
+ * - pinnedAnswers: the answers of the day (also drawn from the seed). The quiz screen plays the daily as
+ *   multiple choice over them, so every player gets the same question set.
+ *   null when the theme has no more answers than DAILY_TARGET (the whole theme is asked)
+ */
+export type DailyChallenge = {
+  /** local date, YYYY-MM-DD */
+  date: string;
+  themeId: string;
+  pinnedAnswers: string[] | null;
+  /** seed of the day; anything else random in the play (e.g. choice order) should use it too */
+  seed: number;
+};
+
+/** Answers asked in a daily challenge */
+export const DAILY_TARGET = 10 satisfies TargetCount;
+
+/** Days shown in the calendar strip (today included) */
+export const DAILY_STRIP_DAYS = 7;
+
+function pad2(n: number): string {
+  return String(n).padStart(2, '0');
+}
+
+/** Local date as YYYY-MM-DD (the day changes at local midnight). */
+export function localDateKey(date: Date = new Date()): string {
+  return `${date.getFullYear()}-${pad2(date.getMonth() + 1)}-${pad2(date.getDate())}`;
+}
+
+/** `key` moved by `days` (negative = past), still YYYY-MM-DD. */
+export function addDays(key: string, days: number): string {
+  const [y, m, d] = key.split('-').map(Number);
+  return localDateKey(new Date(y, m - 1, d + days));
+}
+
+/** The last `count` dates up to `today`, oldest first. */
+export function recentDateKeys(today: string, count: number): string[] {
+  return Array.from({ length: count }, (_, i) => addDays(today, i - count + 1));
+}
+
+/** 32-bit FNV-1a hash, used as a PRNG seed */
+export function hashSeed(text: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+/** mulberry32: small deterministic PRNG returning [0, 1) like Math.random */
+export function seededRandom(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Challenge of `date`. Only list themes take part; ids are sorted (by code unit, not locale)
+ * so neither the order of THEMES nor the device locale changes the result.
+ * Returns null when there is no list theme.
+ */
+export function dailyChallengeFor(date: string, themes: ThemeMeta[]): DailyChallenge | null {
+  const candidates = themes
+    .filter((t) => t.dataset.kind === 'list')
+    .sort((a, b) => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0));
+  if (candidates.length === 0) return null;
+
+  const seed = hashSeed(`${date}|${candidates.map((t) => t.id).join(',')}`);
+  const random = seededRandom(seed);
+  const theme = candidates[Math.floor(random() * candidates.length)];
+  const answers = theme.dataset.kind === 'list' ? theme.dataset.answers : [];
+
+  let pinnedAnswers: string[] | null = null;
+  if (answers.length > DAILY_TARGET) {
+    const pool = [...answers];
+    for (let i = pool.length - 1; i > 0; i--) {
+      const j = Math.floor(random() * (i + 1));
+      [pool[i], pool[j]] = [pool[j], pool[i]];
+    }
+    pinnedAnswers = pool.slice(0, DAILY_TARGET);
+  }
+
+  return { date, themeId: theme.id, pinnedAnswers, seed };
+}
+
+/**
+ * Consecutive days with a daily result, counted back from today.
+ * Today not played yet does not break the streak (it still counts up to yesterday).
+ */
+export function dailyStreak(playedDates: ReadonlySet<string>, today: string): number {
+  let day = playedDates.has(today) ? today : addDays(today, -1);
+  let streak = 0;
+  while (playedDates.has(day)) {
+    streak += 1;
+    day = addDays(day, -1);
+  }
+  return streak;
+}
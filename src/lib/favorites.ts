@@ -0,0 +1,33 @@
+import { readJson, updateJson, writeJson } from '@/src/lib/storage';
+
+const STORAGE_KEY = 'vocab-train:favorites:v1';
+
+/** Favorite theme ids out of saved (or imported) JSON data; anything else is dropped. */
+export function parseFavorites(x: unknown): string[] {
+  return Array.isArray(x) ? [...new Set(x.filter((id): id is string => typeof id === 'string'))] : [];
+}
+
+/** Favorite theme ids, in the order they were added. */
+export async function loadFavorites(): Promise<string[]> {
+  try {
+    return parseFavorites(await readJson(STORAGE_KEY));
+  } catch {
+    return [];
+  }
+}
+
+export async function saveFavorites(favorites: string[]): Promise<void> {
+  await writeJson(STORAGE_KEY, favorites);
+}
+
+/** Change the saved list in turn with the other writes (e.g. a backup merge); returns the new list. */
+export function updateFavorites(update: (favorites: string[]) => string[]): Promise<string[]> {
+  return updateJson(STORAGE_KEY, loadFavorites, update);
+}
+
+/** Add or remove a favorite; returns the new list. */
+export function toggleFavorite(themeId: string): Promise<string[]> {
+  return updateJson(STORAGE_KEY, loadFavorites, (favorites) =>
+    favorites.includes(themeId) ? favorites.filter((id) => id !== themeId) : [...favorites, themeId]
+  );
+}
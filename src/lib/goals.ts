@@ -0,0 +1,159 @@
+import { addDays, dailyStreak, localDateKey } from '@/src/lib/daily';
+import type { PlayLogEntry } from '@/src/lib/records';
+import { readJson, subscribe, updateJson, writeJson } from '@/src/lib/storage';
+
+/**
+ * Daily study goal: a number of plays, or of correct answers (scores after hint costs), per local day.
+ * Progress and study days come from the play log (records v2), so every mode counts.
+ */
+export type GoalKind = 'plays' | 'correct';
+
+export type DailyGoal = {
+  kind: GoalKind;
+  amount: number;
+};
+
+/** Local reminder time; the reminder only fires on days the goal is not met (see reminders.ts) */
+export type ReminderSettings = {
+  enabled: boolean;
+  /** minutes after local midnight */
+  minuteOfDay: number;
+};
+
+export type GoalSettingsV1 = {
+  goal: DailyGoal;
+  reminder: ReminderSettings;
+  updatedAt: number;
+};
+
+export type GoalProgress = {
+  done: number;
+  goal: DailyGoal;
+  met: boolean;
+};
+
+export const GOAL_KINDS: GoalKind[] = ['plays', 'correct'];
+
+/** Amounts offered per kind */
+export const GOAL_AMOUNTS: Record<GoalKind, number[]> = {
+  plays: [1, 3, 5, 10],
+  correct: [10, 30, 50, 100],
+};
+
+export const DEFAULT_GOAL: DailyGoal = { kind: 'plays', amount: 3 };
+
+/** 20:00 */
+export const DEFAULT_REMINDER_MINUTE = 20 * 60;
+
+/** Step of the reminder time picker */
+export const REMINDER_STEP_MINUTES = 30;
+
+const STORAGE_KEY = 'vocab-train:goals:v1';
+
+export function goalKindLabel(kind: GoalKind): string {
+  return kind === 'correct' ? '正解数' : 'プレイ数';
+}
+
+export function goalUnit(kind: GoalKind): string {
+  return kind === 'correct' ? '問' : '回';
+}
+
+/** 1230 -> "20:30" */
+export function formatMinuteOfDay(minuteOfDay: number): string {
+  const m = ((minuteOfDay % 1440) + 1440) % 1440;
+  return `${Math.floor(m / 60)}:${String(m % 60).padStart(2, '0')}`;
+}
+
+export function createDefaultGoalSettings(): GoalSettingsV1 {
+  return {
+    goal: DEFAULT_GOAL,
+    reminder: { enabled: false, minuteOfDay: DEFAULT_REMINDER_MINUTE },
+    updatedAt: Date.now(),
+  };
+}
+
+function isRecord(x: unknown): x is Record<string, any> {
+  return !!x && typeof x === 'object' && !Array.isArray(x);
+}
+
+/** Settings out of saved (or imported) JSON data; missing or invalid fields get the defaults. */
+export function parseGoalSettings(parsed: unknown): GoalSettingsV1 {
+  const defaults = createDefaultGoalSettings();
+  if (!isRecord(parsed)) return defaults;
+
+  const g = parsed.goal;
+  const kind = GOAL_KINDS.find((k) => isRecord(g) && k === g.kind) ?? defaults.goal.kind;
+  const amount = isRecord(g) && typeof g.amount === 'number' && g.amount > 0 ? g.amount : defaults.goal.amount;
+  const r = parsed.reminder;
+  return {
+    goal: { kind, amount },
+    reminder: {
+      enabled: isRecord(r) && r.enabled === true,
+      minuteOfDay:
+        isRecord(r) && typeof r.minuteOfDay === 'number' ? r.minuteOfDay : defaults.reminder.minuteOfDay,
+    },
+    updatedAt: typeof parsed.updatedAt === 'number' ? parsed.updatedAt : Date.now(),
+  };
+}
+
+export async function loadGoalSettings(): Promise<GoalSettingsV1> {
+  try {
+    return parseGoalSettings(await readJson(STORAGE_KEY));
+  } catch {
+    return createDefaultGoalSettings();
+  }
+}
+
+export async function saveGoalSettings(settings: Omit<GoalSettingsV1, 'updatedAt'>): Promise<GoalSettingsV1> {
+  const next = { ...settings, updatedAt: Date.now() };
+  await writeJson(STORAGE_KEY, next);
+  return next;
+}
+
+/** Change the saved settings in turn with the other writes (e.g. a backup merge); `update` sets updatedAt. */
+export function updateGoalSettings(update: (settings: GoalSettingsV1) => GoalSettingsV1): Promise<GoalSettingsV1> {
+  return updateJson(STORAGE_KEY, loadGoalSettings, update);
+}
+
+/** Call `listener` after every change of the settings. Returns the unsubscribe function. */
+export function subscribeGoalSettings(listener: () => void): () => void {
+  return subscribe(STORAGE_KEY, listener);
+}
+
+function entryDate(e: PlayLogEntry): string {
+  return localDateKey(new Date(e.playedAt));
+}
+
+/** Progress toward `goal` on `date` (YYYY-MM-DD, local). */
+export function goalProgress(log: PlayLogEntry[], goal: DailyGoal, date: string): GoalProgress {
+  let done = 0;
+  for (const e of log) {
+    if (entryDate(e) !== date) continue;
+    done += goal.kind === 'plays' ? 1 : e.score;
+  }
+  return { done, goal, met: done >= goal.amount };
+}
+
+/** Local dates with at least one play. */
+export function studyDates(log: PlayLogEntry[]): Set<string> {
+  return new Set(log.map(entryDate));
+}
+
+/** Days in a row with a play, up to today (a day not played yet today does not break it, like dailyStreak). */
+export function studyStreak(log: PlayLogEntry[], today: string): number {
+  return dailyStreak(studyDates(log), today);
+}
+
+/** Longest run of consecutive study days ever. */
+export function longestStudyStreak(log: PlayLogEntry[]): number {
+  const dates = studyDates(log);
+  let best = 0;
+  for (const date of dates) {
+    // Count only from the first day of each run
+    if (dates.has(addDays(date, -1))) continue;
+    let run = 1;
+    while (dates.has(addDays(date, run))) run += 1;
+    best = Math.max(best, run);
+  }
+  return best;
+}
@@ -1,74 +1,335 @@
-import { normalizeAnswer } from '@/src/lib/normalize';
+import { entityNameProfile, normalizeAnswer, type NormalizeProfile } from '@/src/lib/normalize';
+
+/**
+ * How a near miss (small typo against an answer) is scored:
+ * - score: counts as a full hit
+ * - half: counts as 0.5
+ * - flag: no score, only reported in `nearMiss` (the answer stays in `missing`)
+ */
+export type NearMissPolicy = 'score' | 'half' | 'flag';
+
+export const DEFAULT_NEAR_MISS_POLICY: NearMissPolicy = 'flag';
+
+export type NearMiss = {
+  /** what the user typed */
+  input: string;
+  /** canonical answer it was probably meant to be */
+  answer: string;
+};
+
+/**
+ * How an input matched:
+ * - exact: the canonical answer itself
+ * - alias / reading / entity: one of its variants (entity = e.g. English name via entityIds)
+ * - fuzzy: a near miss (scored or not, per NearMissPolicy)
+ * - none: wrong
+ */
+export type MatchKind = 'exact' | 'alias' | 'reading' | 'entity' | 'fuzzy' | 'none';
+
+/** One entry per user input, in input order (empty inputs are skipped). */
+export type GradeTraceEntry = {
+  input: string;
+  normalized: string;
+  /** canonical answer the input matched (fuzzy: the answer it was probably meant to be) */
+  matched: string | null;
+  kind: MatchKind;
+};
 
 export type GradeResult = {
   score: number;
   wrong: string[];
+  nearMiss: NearMiss[];
   missing: string[];
   missingSuggested: string[];
+  /** canonical answers counted as found, in input order (includes scored near misses) */
+  hits: string[];
+  trace: GradeTraceEntry[];
+};
+
+export type GradeDebugInfo = {
+  correctAnswersLength: number;
+  answerIndexSize: number;
+  hitCount: number;
+  nearMissCount: number;
+  missingCount: number;
+};
+
+/** Canonical answer + how the normalized key relates to it */
+export type AnswerIndexEntry = {
+  answer: string;
+  kind: Exclude<MatchKind, 'fuzzy' | 'none'>;
+};
+
+export type GradeOptions = {
+  /** canonical answer -> accepted variants (any hit marks the canonical answer as found) */
+  aliases?: Record<string, string[]>;
+  /** canonical answer -> readings (e.g. 赤 -> あか); accepted like aliases, never displayed */
+  readings?: Record<string, string[]>;
+  /** canonical answer -> canonical entity id (e.g. ドイツ -> DE) */
+  entityIds?: Record<string, string>;
+  /** entity id -> extra accepted names (e.g. DE -> Germany); only used together with entityIds */
+  entityNames?: Record<string, string[]>;
+  nearMissPolicy?: NearMissPolicy;
+  /** normalization profile of the theme (both answers and user input use it) */
+  profile?: NormalizeProfile;
+  /** called once per grading with counters (for debugging the answer index) */
+  onDebug?: (info: GradeDebugInfo) => void;
 };
 
 const SUGGEST_MAX = 5;
 
-export function gradeAnswers(userAnswers: string[], correctAnswers: string[]): GradeResult {
-  const correctAnswersRaw = correctAnswers;
+export function isNearMissPolicy(x: unknown): x is NearMissPolicy {
+  return x === 'score' || x === 'half' || x === 'flag';
+}
 
-  // normalized -> first original (for set membership)
-  const correctNormToFirstOriginal = new Map<string, string>();
-  for (const ans of correctAnswersRaw) {
-    const norm = normalizeAnswer(ans);
+/**
+ * Allowed edit distance for a near miss, by the length of the (normalized) answer.
+ * Very short answers (e.g. 赤, タイ) are never fuzzy-matched: one edit is a different word.
+ */
+function nearMissMaxDistance(len: number): number {
+  if (len <= 2) return 0;
+  if (len <= 6) return 1;
+  return 2;
+}
+
+/** Levenshtein distance over code points; gives up early once it exceeds `max`. */
+function editDistance(a: string, b: string, max: number): number {
+  const s = Array.from(a);
+  const t = Array.from(b);
+  if (Math.abs(s.length - t.length) > max) return max + 1;
+
+  let prev = Array.from({ length: t.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= s.length; i++) {
+    const cur = [i];
+    let rowMin = i;
+    for (let j = 1; j <= t.length; j++) {
+      const cost = s[i - 1] === t[j - 1] ? 0 : 1;
+      const v = Math.min(prev[j] + 1, cur[j - 1] + 1, prev[j - 1] + cost);
+      cur.push(v);
+      if (v < rowMin) rowMin = v;
+    }
+    if (rowMin > max) return max + 1;
+    prev = cur;
+  }
+  return prev[t.length];
+}
+
+/**
+ * Closest canonical answer within the allowed distance, or null.
+ * Ties go to the entry that comes first in the index (dataset order).
+ */
+function findNearMiss(
+  norm: string,
+  answerIndex: Map<string, AnswerIndexEntry>,
+  exclude: ReadonlySet<string>
+): string | null {
+  let best: string | null = null;
+  let bestDistance = Infinity;
+  for (const [candidateNorm, { answer: canonical }] of answerIndex) {
+    if (exclude.has(canonical)) continue;
+    const max = nearMissMaxDistance(Array.from(candidateNorm).length);
+    if (max === 0) continue;
+    const d = editDistance(norm, candidateNorm, max);
+    if (d <= max && d < bestDistance) {
+      best = canonical;
+      bestDistance = d;
+    }
+  }
+  return best;
+}
+
+/** Whether a normalized input is close enough to some answer of the index to count as a near miss. */
+export function isNearMiss(norm: string, answerIndex: Map<string, AnswerIndexEntry>): boolean {
+  return findNearMiss(norm, answerIndex, new Set()) != null;
+}
+
+/**
+ * Build the lookup used for grading: normalized answer/alias/reading/entity name -> canonical answer.
+ * - Canonical answers are deduped by their normalized form (first one wins)
+ * - A variant never overrides a canonical answer or an earlier variant
+ * - Entity names are normalized with entityNameProfile (never romaji-converted)
+ */
+export function buildAnswerIndex(
+  correctAnswers: string[],
+  options: Pick<GradeOptions, 'aliases' | 'readings' | 'entityIds' | 'entityNames' | 'profile'> = {}
+): Map<string, AnswerIndexEntry> {
+  const { aliases = {}, readings = {}, entityIds = {}, entityNames = {}, profile } = options;
+  const index = new Map<string, AnswerIndexEntry>();
+
+  for (const ans of correctAnswers) {
+    const norm = normalizeAnswer(ans, profile);
     if (!norm) continue;
-    if (!correctNormToFirstOriginal.has(norm)) {
-      correctNormToFirstOriginal.set(norm, ans);
+    if (!index.has(norm)) {
+      index.set(norm, { answer: ans, kind: 'exact' });
     }
   }
 
-  const correctNormSet = new Set(correctNormToFirstOriginal.keys());
+  for (const ans of correctAnswers) {
+    if (index.get(normalizeAnswer(ans, profile))?.answer !== ans) continue;
+    const entityId = entityIds[ans];
+    const variants: [string[], AnswerIndexEntry['kind']][] = [
+      [aliases[ans] ?? [], 'alias'],
+      [readings[ans] ?? [], 'reading'],
+      [entityId ? entityNames[entityId] ?? [] : [], 'entity'],
+    ];
+    for (const [values, kind] of variants) {
+      for (const variant of values) {
+        const norm = normalizeAnswer(variant, kind === 'entity' ? entityNameProfile(profile) : profile);
+        if (!norm) continue;
+        if (!index.has(norm)) {
+          index.set(norm, { answer: ans, kind });
+        }
+      }
+    }
+  }
+
+  return index;
+}
+
+/**
+ * Normalized form of a user input: an input that spells an entity name of the index (e.g. Germany)
+ * is kept as typed, anything else uses the theme profile (romaji included).
+ */
+export function normalizeInput(
+  input: string,
+  answerIndex: Map<string, AnswerIndexEntry>,
+  profile?: NormalizeProfile
+): string {
+  const asName = normalizeAnswer(input, entityNameProfile(profile));
+  if (answerIndex.get(asName)?.kind === 'entity') return asName;
+  return normalizeAnswer(input, profile);
+}
+
+export function gradeAnswers(
+  userAnswers: string[],
+  correctAnswers: string[],
+  options: GradeOptions = {}
+): GradeResult {
+  const correctAnswersRaw = correctAnswers;
+
+  // normalized (answer or any variant) -> canonical answer
+  const answerIndex = buildAnswerIndex(correctAnswersRaw, options);
 
   // Correct hits only (wrong answers MUST NOT affect missing)
   const correctHitSet = new Set<string>();
-  const seenUserNorms = new Set<string>();
-  const wrong: string[] = [];
+  const inputs: { raw: string; norm: string }[] = [];
+  const entryByNorm = new Map<string, GradeTraceEntry>(); // first input per normalized form
+  const unmatched: GradeTraceEntry[] = [];
 
   for (const raw of userAnswers) {
-    const norm = normalizeAnswer(raw);
+    const norm = normalizeInput(raw, answerIndex, options.profile);
     if (!norm) continue;
-    if (seenUserNorms.has(norm)) continue;
-    seenUserNorms.add(norm);
+    inputs.push({ raw, norm });
+    // Same normalized input again: same outcome as the first one, graded once
+    if (entryByNorm.has(norm)) continue;
+
+    const hit = answerIndex.get(norm);
+    const entry: GradeTraceEntry = {
+      input: raw,
+      normalized: norm,
+      matched: hit?.answer ?? null,
+      kind: hit?.kind ?? 'none',
+    };
+    entryByNorm.set(norm, entry);
 
-    if (correctNormSet.has(norm)) {
-      correctHitSet.add(norm);
+    if (hit) {
+      // Several aliases of the same group still count once
+      correctHitSet.add(hit.answer);
     } else {
-      wrong.push(raw);
+      unmatched.push(entry);
     }
   }
 
-  const score = correctHitSet.size;
+  // Near misses are looked up only after all exact hits are known,
+  // so a typo never "steals" an answer the user also typed correctly.
+  const policy = options.nearMissPolicy ?? DEFAULT_NEAR_MISS_POLICY;
+  const nearMissSet = new Set<string>();
+  const nearMiss: NearMiss[] = [];
+  const wrong: string[] = [];
 
-  // missing = correct set - correctHitSet (preserve dataset order, dedupe by normalized)
+  for (const entry of unmatched) {
+    const answer = findNearMiss(entry.normalized, answerIndex, new Set([...correctHitSet, ...nearMissSet]));
+    if (answer == null) {
+      wrong.push(entry.input);
+      continue;
+    }
+    entry.matched = answer;
+    entry.kind = 'fuzzy';
+    nearMissSet.add(answer);
+    nearMiss.push({ input: entry.input, answer });
+  }
+
+  const trace: GradeTraceEntry[] = inputs.map(({ raw, norm }) => ({ ...entryByNorm.get(norm)!, input: raw }));
+
+  const nearMissScore = policy === 'score' ? nearMissSet.size : policy === 'half' ? nearMissSet.size * 0.5 : 0;
+  const score = correctHitSet.size + nearMissScore;
+  // Scored near misses are "found"; flagged ones are still missing
+  const foundSet = policy === 'flag' ? correctHitSet : new Set([...correctHitSet, ...nearMissSet]);
+
+  const hits: string[] = [];
+  for (const t of trace) {
+    if (t.matched == null || !foundSet.has(t.matched) || hits.includes(t.matched)) continue;
+    hits.push(t.matched);
+  }
+
+  // missing = canonical answers - foundSet (preserve dataset order, dedupe by normalized)
   const missing: string[] = [];
   const seenCorrectNorms = new Set<string>();
   for (const ans of correctAnswersRaw) {
-    const norm = normalizeAnswer(ans);
+    const norm = normalizeAnswer(ans, options.profile);
     if (!norm) continue;
     if (seenCorrectNorms.has(norm)) continue;
     seenCorrectNorms.add(norm);
 
-    if (!correctHitSet.has(norm)) {
+    if (!foundSet.has(ans)) {
       missing.push(ans);
     }
   }
 
   const missingSuggested = missing.slice(0, SUGGEST_MAX);
 
-  // Debug (temporary)
-  console.log('[gradeAnswers]', {
-    correctAnswersRawLength: correctAnswersRaw.length,
-    correctNormSetSize: correctNormSet.size,
-    correctHitSetSize: correctHitSet.size,
-    missingLength: missing.length,
+  options.onDebug?.({
+    correctAnswersLength: correctAnswersRaw.length,
+    answerIndexSize: answerIndex.size,
+    hitCount: correctHitSet.size,
+    nearMissCount: nearMiss.length,
+    missingCount: missing.length,
   });
 
-  return { score, wrong, missing, missingSuggested };
+  return { score, wrong, nearMiss, missing, missingSuggested, hits, trace };
 }
 
+/** One input graded on its own (practice mode) */
+export type IncrementalGrade = {
+  entry: GradeTraceEntry;
+  /** counts toward the score: a new hit, or a near miss the policy scores */
+  credited: boolean;
+};
+
+/**
+ * Grade one input against a prebuilt index (buildAnswerIndex) without re-grading earlier inputs.
+ * `found` holds the canonical answers already credited in this play: hitting one again is not credited,
+ * and near misses only look at answers not found yet.
+ */
+export function gradeIncremental(
+  input: string,
+  answerIndex: Map<string, AnswerIndexEntry>,
+  found: ReadonlySet<string>,
+  options: Pick<GradeOptions, 'nearMissPolicy' | 'profile'> = {}
+): IncrementalGrade {
+  const norm = normalizeInput(input, answerIndex, options.profile);
+  const entry: GradeTraceEntry = { input, normalized: norm, matched: null, kind: 'none' };
+  if (!norm) return { entry, credited: false };
+
+  const hit = answerIndex.get(norm);
+  if (hit) {
+    return { entry: { ...entry, matched: hit.answer, kind: hit.kind }, credited: !found.has(hit.answer) };
+  }
 
+  const answer = findNearMiss(norm, answerIndex, found);
+  if (answer != null) {
+    const policy = options.nearMissPolicy ?? DEFAULT_NEAR_MISS_POLICY;
+    return { entry: { ...entry, matched: answer, kind: 'fuzzy' }, credited: policy !== 'flag' };
+  }
+  return { entry, credited: false };
+}
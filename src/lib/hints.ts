@@ -0,0 +1,74 @@
+import { countryPlaceLabel, getCountryFacts } from '@/src/lib/countries';
+import type { GradeOptions } from '@/src/lib/grading';
+
+/** What a hint reveals about an answer, in the order they are given */
+export type HintKind = 'length' | 'firstKana' | 'region';
+
+export type Hint = {
+  kind: HintKind;
+  text: string;
+};
+
+/** The answer being hinted and how many of its hints are shown (1 = the first one) */
+export type HintState = {
+  answer: string;
+  shown: number;
+};
+
+/** Score lost per hint (half an answer) */
+export const HINT_COST = 0.5;
+
+const KANA_RE = /^[ぁ-ゖァ-ヺ]/;
+
+/** First kana of the answer, or of its first reading when the answer starts with kanji etc. */
+function firstKana(answer: string, readings: string[]): string | null {
+  for (const s of [answer, ...readings]) {
+    const m = s.trim().match(KANA_RE);
+    if (m) return m[0];
+  }
+  return null;
+}
+
+/**
+ * Hints available for one answer, weakest first:
+ * character count -> first kana (if any) -> subregion or continent (answers with a countries_base entity only).
+ */
+export function hintsFor(answer: string, options: Pick<GradeOptions, 'readings' | 'entityIds'> = {}): Hint[] {
+  const hints: Hint[] = [{ kind: 'length', text: `${Array.from(answer).length}文字` }];
+
+  const kana = firstKana(answer, options.readings?.[answer] ?? []);
+  if (kana) hints.push({ kind: 'firstKana', text: `「${kana}」から始まる` });
+
+  const entityId = options.entityIds?.[answer];
+  const place = entityId ? countryPlaceLabel(getCountryFacts(entityId)) : null;
+  if (place) hints.push({ kind: 'region', text: `地域: ${place}` });
+
+  return hints;
+}
+
+/**
+ * State after pressing the hint button once: the next hint of the same answer while it is still
+ * missing and has hints left, else the first hint of another missing answer.
+ * null when there is nothing left to hint.
+ */
+export function nextHint(
+  current: HintState | null,
+  missing: string[],
+  options: Pick<GradeOptions, 'readings' | 'entityIds'> = {},
+  random: () => number = Math.random
+): HintState | null {
+  if (missing.length === 0) return null;
+
+  if (current && missing.includes(current.answer) && current.shown < hintsFor(current.answer, options).length) {
+    return { answer: current.answer, shown: current.shown + 1 };
+  }
+
+  const pool = current ? missing.filter((a) => a !== current.answer) : missing;
+  if (pool.length === 0) return null;
+  return { answer: pool[Math.floor(random() * pool.length)], shown: 1 };
+}
+
+/** Score after hint costs (never below 0). */
+export function applyHintCost(score: number, hintsUsed: number): number {
+  return Math.max(0, score - hintsUsed * HINT_COST);
+}
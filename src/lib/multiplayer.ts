@@ -0,0 +1,248 @@
+import { gradeIncremental, type AnswerIndexEntry, type GradeOptions } from '@/src/lib/grading';
+import { normalizeAnswer } from '@/src/lib/normalize';
+import { readJson, subscribe, updateJson, writeJson } from '@/src/lib/storage';
+
+/**
+ * Pass-and-play: 2-6 players share one device and take turns naming answers of the same theme.
+ * An answer claimed by one player is rejected for everybody else.
+ */
+export const MIN_PLAYERS = 2;
+export const MAX_PLAYERS = 6;
+
+/** Matches kept in the store at most (oldest dropped first) */
+const MAX_MATCHES = 500;
+
+export type TurnOutcome =
+  /** a new answer: +1 point, turn passes */
+  | 'claimed'
+  /** an answer another player (or the same player) already claimed: rejected, same player tries again */
+  | 'taken'
+  /** close to an unclaimed answer but not credited (nearMissPolicy 'flag'): turn passes */
+  | 'near'
+  /** not an answer: turn passes */
+  | 'miss'
+  | 'pass';
+
+export type MatchState = {
+  players: string[];
+  /** index of the player whose turn it is */
+  turn: number;
+  scores: number[];
+  /** canonical answer -> index of the player who claimed it */
+  claimedBy: Record<string, number>;
+  /** turns in a row that claimed nothing; the match ends when every player has had one */
+  idleTurns: number;
+};
+
+export type TurnResult = {
+  state: MatchState;
+  outcome: TurnOutcome;
+  /** matched canonical answer (claimed / taken / near) */
+  answer: string | null;
+};
+
+export type MatchPlayer = { name: string; score: number };
+
+export type MatchRecord = {
+  themeId: string;
+  playedAt: number;
+  /** in turn order */
+  players: MatchPlayer[];
+};
+
+export type MultiplayerStoreV1 = {
+  matches: MatchRecord[];
+  /** names of the latest match, offered again on the setup screen */
+  lastPlayers: string[];
+  updatedAt: number;
+};
+
+export type Standing = MatchPlayer & {
+  /** 1-based; tied scores share a rank */
+  rank: number;
+};
+
+export type PlayerSummary = {
+  name: string;
+  matches: number;
+  /** matches finished at rank 1 (shared first place counts) */
+  wins: number;
+  points: number;
+};
+
+export type HeadToHead = {
+  /** a < b (code unit order) */
+  a: string;
+  b: string;
+  aWins: number;
+  bWins: number;
+  draws: number;
+};
+
+const STORAGE_KEY = 'vocab-train:multiplayer:v1';
+
+/** Trimmed names with blanks dropped. */
+export function cleanPlayerNames(names: string[]): string[] {
+  return names.map((n) => n.trim()).filter((n) => n.length > 0);
+}
+
+/** Why these (cleaned) names cannot start a match, or null when they can. */
+export function playerNamesError(names: string[]): string | null {
+  if (names.length < MIN_PLAYERS) return `${MIN_PLAYERS}人以上の名前を入れてください`;
+  if (names.length > MAX_PLAYERS) return `${MAX_PLAYERS}人までです`;
+  const norms = names.map((n) => normalizeAnswer(n));
+  if (new Set(norms).size !== norms.length) return '同じ名前の人がいます';
+  return null;
+}
+
+export function startMatch(players: string[]): MatchState {
+  return { players, turn: 0, scores: players.map(() => 0), claimedBy: {}, idleTurns: 0 };
+}
+
+function nextTurn(state: MatchState, claimed: boolean): MatchState {
+  return {
+    ...state,
+    turn: (state.turn + 1) % state.players.length,
+    idleTurns: claimed ? 0 : state.idleTurns + 1,
+  };
+}
+
+/** Grade the current player's answer with the theme's normalization and move the turn on. */
+export function playTurn(
+  state: MatchState,
+  input: string,
+  answerIndex: Map<string, AnswerIndexEntry>,
+  options: Pick<GradeOptions, 'nearMissPolicy' | 'profile'> = {}
+): TurnResult {
+  const g = gradeIncremental(input, answerIndex, new Set(Object.keys(state.claimedBy)), options);
+  const answer = g.entry.matched;
+
+  if (answer != null && g.credited) {
+    const scores = state.scores.map((s, i) => (i === state.turn ? s + 1 : s));
+    const claimedBy = { ...state.claimedBy, [answer]: state.turn };
+    return { state: nextTurn({ ...state, scores, claimedBy }, true), outcome: 'claimed', answer };
+  }
+  if (answer != null && answer in state.claimedBy) {
+    return { state, outcome: 'taken', answer };
+  }
+  if (answer != null) {
+    return { state: nextTurn(state, false), outcome: 'near', answer };
+  }
+  return { state: nextTurn(state, false), outcome: 'miss', answer: null };
+}
+
+export function passTurn(state: MatchState): MatchState {
+  return nextTurn(state, false);
+}
+
+/** Every answer claimed, or a whole round of players in a row could not claim one. */
+export function isMatchOver(state: MatchState, answerCount: number): boolean {
+  return Object.keys(state.claimedBy).length >= answerCount || state.idleTurns >= state.players.length;
+}
+
+/** Scoreboard: highest score first (turn order among ties). */
+export function standings(players: MatchPlayer[]): Standing[] {
+  const sorted = [...players].sort((a, b) => b.score - a.score);
+  return sorted.map((p) => ({ ...p, rank: sorted.findIndex((q) => q.score === p.score) + 1 }));
+}
+
+export function createEmptyMultiplayerStore(): MultiplayerStoreV1 {
+  return { matches: [], lastPlayers: [], updatedAt: Date.now() };
+}
+
+function isMatchRecord(x: unknown): x is MatchRecord {
+  if (!x || typeof x !== 'object') return false;
+  const m = x as Partial<MatchRecord>;
+  return (
+    typeof m.themeId === 'string' &&
+    typeof m.playedAt === 'number' &&
+    Array.isArray(m.players) &&
+    m.players.every((p) => p && typeof p.name === 'string' && typeof p.score === 'number')
+  );
+}
+
+/** Multiplayer store out of saved (or imported) JSON data; matches of the wrong shape are dropped. */
+export function parseMultiplayerStore(x: unknown): MultiplayerStoreV1 {
+  const parsed = x as Partial<MultiplayerStoreV1> | null;
+  if (!parsed || typeof parsed !== 'object') return createEmptyMultiplayerStore();
+  return {
+    matches: Array.isArray(parsed.matches) ? parsed.matches.filter(isMatchRecord) : [],
+    lastPlayers: Array.isArray(parsed.lastPlayers)
+      ? parsed.lastPlayers.filter((n): n is string => typeof n === 'string')
+      : [],
+    updatedAt: typeof parsed.updatedAt === 'number' ? parsed.updatedAt : Date.now(),
+  };
+}
+
+export async function loadMultiplayerStore(): Promise<MultiplayerStoreV1> {
+  try {
+    return parseMultiplayerStore(await readJson(STORAGE_KEY));
+  } catch {
+    return createEmptyMultiplayerStore();
+  }
+}
+
+/** Save the whole store (the newest MAX_MATCHES matches). */
+export async function saveMultiplayerStore(store: MultiplayerStoreV1): Promise<void> {
+  await writeJson(STORAGE_KEY, { ...store, matches: store.matches.slice(-MAX_MATCHES) });
+}
+
+/** Change the saved store in turn with the other writes (e.g. a backup merge); keeps the newest MAX_MATCHES. */
+export function updateMultiplayerStore(
+  update: (store: MultiplayerStoreV1) => MultiplayerStoreV1
+): Promise<MultiplayerStoreV1> {
+  return updateJson(STORAGE_KEY, loadMultiplayerStore, (store) => {
+    const next = update(store);
+    return { ...next, matches: next.matches.slice(-MAX_MATCHES) };
+  });
+}
+
+/** Call `listener` after every change of the saved matches. Returns the unsubscribe function. */
+export function subscribeMultiplayerStore(listener: () => void): () => void {
+  return subscribe(STORAGE_KEY, listener);
+}
+
+/** Save a finished match (and remember its players for the next setup). */
+export function recordMatch(themeId: string, players: MatchPlayer[]): Promise<MultiplayerStoreV1> {
+  const playedAt = Date.now();
+  return updateJson(STORAGE_KEY, loadMultiplayerStore, (store) => ({
+    matches: [...store.matches, { themeId, playedAt, players }].slice(-MAX_MATCHES),
+    lastPlayers: players.map((p) => p.name),
+    updatedAt: Date.now(),
+  }));
+}
+
+/** Per player name: matches, wins and points, most wins first. */
+export function playerSummaries(matches: MatchRecord[]): PlayerSummary[] {
+  const byName = new Map<string, PlayerSummary>();
+  for (const m of matches) {
+    for (const s of standings(m.players)) {
+      const p = byName.get(s.name) ?? { name: s.name, matches: 0, wins: 0, points: 0 };
+      p.matches += 1;
+      p.wins += s.rank === 1 ? 1 : 0;
+      p.points += s.score;
+      byName.set(s.name, p);
+    }
+  }
+  return [...byName.values()].sort((a, b) => b.wins - a.wins || b.points - a.points);
+}
+
+/** Every pair of names that met in a match, with who scored more each time. Most met pairs first. */
+export function headToHead(matches: MatchRecord[]): HeadToHead[] {
+  const byPair = new Map<string, HeadToHead>();
+  for (const m of matches) {
+    for (let i = 0; i < m.players.length; i++) {
+      for (let j = i + 1; j < m.players.length; j++) {
+        const [x, y] = m.players[i].name < m.players[j].name ? [m.players[i], m.players[j]] : [m.players[j], m.players[i]];
+        const key = `${x.name}\n${y.name}`;
+        const h = byPair.get(key) ?? { a: x.name, b: y.name, aWins: 0, bWins: 0, draws: 0 };
+        if (x.score > y.score) h.aWins += 1;
+        else if (y.score > x.score) h.bWins += 1;
+        else h.draws += 1;
+        byPair.set(key, h);
+      }
+    }
+  }
+  const met = (h: HeadToHead) => h.aWins + h.bWins + h.draws;
+  return [...byPair.values()].sort((p, q) => met(q) - met(p));
+}
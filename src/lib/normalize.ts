@@ -1,11 +1,81 @@
+import { romajiToHiragana } from '@/src/lib/romaji';
+
 /**
- * Answer normalization rules:
+ * Normalization profile (selected per theme with `normalizeProfile`):
+ * - strict: the base rules only
+ * - loose-katakana: base + separators removed, ヴ -> バ行, ー -> vowel, small kana -> big kana
+ *   (アンティグア・バーブーダ = アンティグアバーブーダ, ヴェネズエラ = ベネズエラ, オーストラリア = オオストラリア)
+ * - latin: base + separators/apostrophes removed, diacritics stripped (for English answers: Côte d'Ivoire = cote divoire)
+ * - romaji: loose-katakana + romaji -> hiragana (for kana themes answered with a latin keyboard).
+ *   お段 + う is read as a long vowel (とう = とお), so "tougo" = トーゴ.
+ *   Not for themes whose answers are English words: they would be converted too.
+ */
+export type NormalizeProfile = 'strict' | 'loose-katakana' | 'latin' | 'romaji';
+
+export const DEFAULT_NORMALIZE_PROFILE: NormalizeProfile = 'strict';
+
+type NormalizeRules = {
+  romaji: boolean;
+  removeSeparators: boolean;
+  stripDiacritics: boolean;
+  foldVu: boolean;
+  foldLongVowel: boolean;
+  foldSmallKana: boolean;
+  foldOu: boolean;
+};
+
+const STRICT_RULES: NormalizeRules = {
+  romaji: false,
+  removeSeparators: false,
+  stripDiacritics: false,
+  foldVu: false,
+  foldLongVowel: false,
+  foldSmallKana: false,
+  foldOu: false,
+};
+
+const LOOSE_KATAKANA_RULES: NormalizeRules = {
+  ...STRICT_RULES,
+  removeSeparators: true,
+  foldVu: true,
+  foldLongVowel: true,
+  foldSmallKana: true,
+};
+
+const PROFILE_RULES: Record<NormalizeProfile, NormalizeRules> = {
+  strict: STRICT_RULES,
+  'loose-katakana': LOOSE_KATAKANA_RULES,
+  latin: { ...STRICT_RULES, removeSeparators: true, stripDiacritics: true },
+  romaji: { ...LOOSE_KATAKANA_RULES, romaji: true, foldOu: true },
+};
+
+export function isNormalizeProfile(x: unknown): x is NormalizeProfile {
+  return typeof x === 'string' && Object.prototype.hasOwnProperty.call(PROFILE_RULES, x);
+}
+
+/**
+ * Profile for entity names (e.g. Germany): they are typed as they are spelled, so the romaji
+ * profile falls back to loose-katakana instead of turning them into kana.
+ */
+export function entityNameProfile(profile?: NormalizeProfile): NormalizeProfile | undefined {
+  return profile === 'romaji' ? 'loose-katakana' : profile;
+}
+
+// Middle dots, hyphens/dashes, apostrophes and periods (NOT the long vowel mark ー)
+const SEPARATORS_RE = /[・·•\-‐‑‒–—―−'’.,、]/g;
+
+/**
+ * Answer normalization rules (base, every profile):
  * - Remove all spaces (including full-width spaces)
  * - Lowercase latin letters
  * - Treat full-width/half-width as the same (NFKC)
  * - Treat hiragana/katakana as the same (normalize to hiragana)
+ *
+ * Optional rules are switched on by the profile (see NormalizeProfile).
  */
-export function normalizeAnswer(text: string): string {
+export function normalizeAnswer(text: string, profile: NormalizeProfile = DEFAULT_NORMALIZE_PROFILE): string {
+  const rules = PROFILE_RULES[profile] ?? STRICT_RULES;
+
   // 1) Remove ALL spaces (half/full width + newlines/tabs)
   const noSpaces = (text ?? '').replace(/[\s\u3000]+/g, '');
   // 2) Half-width kana -> Full-width kana (manual; do NOT rely on NFKC in RN/Hermes)
@@ -14,12 +84,106 @@ export function normalizeAnswer(text: string): string {
   const nfkc = fullwidthKana.normalize('NFKC');
   // 4) Lowercase latin letters
   const lower = nfkc.toLowerCase();
-  // 5) Katakana -> Hiragana
-  const normalized = katakanaToHiragana(lower);
+  // 5) Romaji -> Hiragana (opt-in; before separators, "-" is a long vowel in romaji)
+  const kana = rules.romaji ? romajiToHiragana(lower) : lower;
+  // 6) Katakana -> Hiragana
+  let normalized = katakanaToHiragana(kana);
+
+  // 7) Profile rules
+  if (rules.removeSeparators) normalized = normalized.replace(SEPARATORS_RE, '');
+  if (rules.stripDiacritics) normalized = stripLatinDiacritics(normalized);
+  if (rules.foldVu) normalized = foldVu(normalized);
+  if (rules.foldLongVowel) normalized = foldLongVowelMark(normalized);
+  if (rules.foldSmallKana) normalized = foldSmallKana(normalized);
+  if (rules.foldOu) normalized = foldOu(normalized);
 
   return normalized;
 }
 
+/** é -> e, ô -> o (only combining marks of latin letters; kana dakuten are kept) */
+function stripLatinDiacritics(input: string): string {
+  return input.normalize('NFD').replace(/[\u0300-\u036f]/g, '').normalize('NFC');
+}
+
+/** ゔぁ/ゔぃ/ゔ/ゔぇ/ゔぉ -> ば/び/ぶ/べ/ぼ (expects hiragana) */
+function foldVu(input: string): string {
+  return input.replace(/ゔ([ぁぃぇぉ]?)/g, (_, small: string) => VU_TO_BA[small] ?? 'ぶ');
+}
+
+const VU_TO_BA: Record<string, string> = {
+  ぁ: 'ば',
+  ぃ: 'び',
+  '': 'ぶ',
+  ぇ: 'べ',
+  ぉ: 'ぼ',
+};
+
+/** ー -> vowel of the previous kana (おー -> おお, ぱー -> ぱあ). Expects hiragana. */
+function foldLongVowelMark(input: string): string {
+  let out = '';
+  let prevVowel = '';
+  for (const ch of input) {
+    if (ch === 'ー' && prevVowel) {
+      out += prevVowel;
+      continue;
+    }
+    out += ch;
+    prevVowel = KANA_VOWEL[ch] ?? (ch === 'ー' ? prevVowel : '');
+  }
+  return out;
+}
+
+/** お段 + う -> お段 + お (とう -> とお, to match ト- -> とお). Expects hiragana with ー already folded. */
+function foldOu(input: string): string {
+  let out = '';
+  let prevVowel = '';
+  for (const ch of input) {
+    const folded = ch === 'う' && prevVowel === 'お' ? 'お' : ch;
+    out += folded;
+    prevVowel = KANA_VOWEL[folded] ?? '';
+  }
+  return out;
+}
+
+const KANA_VOWEL: Record<string, string> = (() => {
+  const rows: [string, string][] = [
+    ['あ', 'あかがさざただなはばぱまやらわぁゃゎ'],
+    ['い', 'いきぎしじちぢにひびぴみりぃ'],
+    ['う', 'うくぐすずつづぬふぶぷむゆるゔぅゅ'],
+    ['え', 'えけげせぜてでねへべぺめれぇ'],
+    ['お', 'おこごそぞとどのほぼぽもよろをぉょ'],
+  ];
+  const map: Record<string, string> = {};
+  for (const [vowel, chars] of rows) {
+    for (const ch of chars) map[ch] = vowel;
+  }
+  return map;
+})();
+
+/** ぁぃぅぇぉゃゅょっゎ -> あいうえおやゆよつわ (expects hiragana) */
+function foldSmallKana(input: string): string {
+  let out = '';
+  for (const ch of input) {
+    out += SMALL_TO_BIG[ch] ?? ch;
+  }
+  return out;
+}
+
+const SMALL_TO_BIG: Record<string, string> = {
+  ぁ: 'あ',
+  ぃ: 'い',
+  ぅ: 'う',
+  ぇ: 'え',
+  ぉ: 'お',
+  ゃ: 'や',
+  ゅ: 'ゆ',
+  ょ: 'よ',
+  っ: 'つ',
+  ゎ: 'わ',
+  ゕ: 'か',
+  ゖ: 'け',
+};
+
 function katakanaToHiragana(input: string): string {
   let out = '';
   for (const ch of input) {
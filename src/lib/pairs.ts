@@ -0,0 +1,60 @@
+import type { ListThemeDataset, PairItem, PairsThemeDataset } from '@/datasets/themes';
+import { gradeAnswers, type GradeOptions, type MatchKind } from '@/src/lib/grading';
+
+/** Outcome of one pairs card */
+export type PairCardResult = {
+  prompt: string;
+  input: string;
+  /** display answer of the card (answers[0]) */
+  answer: string;
+  correct: boolean;
+  kind: MatchKind;
+};
+
+/**
+ * List view of a pairs theme (one answer per card), for the parts of the quiz screen
+ * that only need answer counts / target options.
+ */
+export function pairsAsList(dataset: PairsThemeDataset): ListThemeDataset {
+  return {
+    id: dataset.id,
+    title: dataset.title,
+    categoryId: dataset.categoryId,
+    categoryTitle: dataset.categoryTitle,
+    kind: 'list',
+    answers: dataset.items.map((item) => item.answers[0]),
+    aliases: {},
+    readings: {},
+    entityIds: {},
+    nearMissPolicy: dataset.nearMissPolicy,
+    normalizeProfile: dataset.normalizeProfile,
+    defaultTarget: dataset.defaultTarget,
+  };
+}
+
+/** `count` cards in random order (Fisher–Yates over a copy). */
+export function drawPairDeck(items: PairItem[], count: number, random: () => number = Math.random): PairItem[] {
+  const deck = [...items];
+  for (let i = deck.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [deck[i], deck[j]] = [deck[j], deck[i]];
+  }
+  return deck.slice(0, Math.max(0, count));
+}
+
+/**
+ * Grade one card through gradeAnswers: answers[0] is the canonical answer, the rest are its aliases.
+ * A near miss counts as correct unless the policy is 'flag' (a single card has no half score).
+ */
+export function gradePairAnswer(
+  item: PairItem,
+  input: string,
+  options: Pick<GradeOptions, 'nearMissPolicy' | 'profile'> = {}
+): PairCardResult {
+  const [answer, ...variants] = item.answers;
+  const r = gradeAnswers([input], [answer], { ...options, aliases: { [answer]: variants } });
+  const kind = r.trace[0]?.kind ?? 'none';
+  const correct = r.score > 0;
+
+  return { prompt: item.prompt, input: input.trim(), answer, correct, kind };
+}
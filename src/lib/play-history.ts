@@ -0,0 +1,104 @@
+import { addDays, localDateKey } from '@/src/lib/daily';
+import type { PlayLogEntry, PlayMode } from '@/src/lib/records';
+
+/**
+ * Views over the per-play log (records v2) for the record screens.
+ * Scores are compared as a rate (score / answers asked), since plays of one theme can have different targets.
+ * Plays migrated from v1 have no log entries, so they only appear in the counters.
+ */
+export type ThemeHistorySummary = {
+  plays: number;
+  /** best / mean of score / asked (0..1) */
+  bestRate: number;
+  averageRate: number;
+  lastPlayedAt: number;
+};
+
+export type ScorePoint = {
+  playedAt: number;
+  mode: PlayMode;
+  rate: number;
+};
+
+export type MissedAnswer = {
+  answer: string;
+  count: number;
+};
+
+export type WeekActivity = {
+  /** Monday of the week, YYYY-MM-DD */
+  weekStart: string;
+  plays: number;
+};
+
+/** Plays in the score chart of the theme detail */
+export const SCORE_TREND_PLAYS = 20;
+
+/** Weeks in the activity chart (this week included) */
+export const ACTIVITY_WEEKS = 8;
+
+export function scoreRate(e: Pick<PlayLogEntry, 'score' | 'asked'>): number {
+  if (e.asked <= 0) return 0;
+  return Math.min(1, e.score / e.asked);
+}
+
+/** themeId -> summary, for every theme with at least one logged play */
+export function summarizeThemes(log: PlayLogEntry[]): Record<string, ThemeHistorySummary> {
+  const out: Record<string, ThemeHistorySummary> = {};
+  const rateSums: Record<string, number> = {};
+  for (const e of log) {
+    const r = scoreRate(e);
+    const s = out[e.themeId];
+    if (!s) {
+      out[e.themeId] = { plays: 1, bestRate: r, averageRate: r, lastPlayedAt: e.playedAt };
+      rateSums[e.themeId] = r;
+      continue;
+    }
+    s.plays += 1;
+    s.bestRate = Math.max(s.bestRate, r);
+    s.lastPlayedAt = Math.max(s.lastPlayedAt, e.playedAt);
+    rateSums[e.themeId] += r;
+    s.averageRate = rateSums[e.themeId] / s.plays;
+  }
+  return out;
+}
+
+/** The latest `limit` plays of a theme, oldest first. */
+export function scoreTrend(log: PlayLogEntry[], themeId: string, limit: number = SCORE_TREND_PLAYS): ScorePoint[] {
+  return log
+    .filter((e) => e.themeId === themeId)
+    .slice(-limit)
+    .map((e) => ({ playedAt: e.playedAt, mode: e.mode, rate: scoreRate(e) }));
+}
+
+/** Answers of a theme most often missed (see PlayLogEntry.missing: partial plays count the asked ones), most first. */
+export function mostMissedAnswers(log: PlayLogEntry[], themeId: string, limit = 10): MissedAnswer[] {
+  const counts = new Map<string, number>();
+  for (const e of log) {
+    if (e.themeId !== themeId) continue;
+    for (const answer of e.missing) counts.set(answer, (counts.get(answer) ?? 0) + 1);
+  }
+  return [...counts.entries()]
+    .map(([answer, count]) => ({ answer, count }))
+    .sort((a, b) => b.count - a.count)
+    .slice(0, limit);
+}
+
+/** Monday of the week of a YYYY-MM-DD date. */
+export function weekStartOf(key: string): string {
+  const [y, m, d] = key.split('-').map(Number);
+  const day = new Date(y, m - 1, d).getDay(); // 0 = Sunday
+  return addDays(key, -((day + 6) % 7));
+}
+
+/** Plays per week (local time) for the last `weeks` weeks up to `today`, oldest first. */
+export function weeklyActivity(log: PlayLogEntry[], today: string, weeks: number = ACTIVITY_WEEKS): WeekActivity[] {
+  const thisWeek = weekStartOf(today);
+  const out = Array.from({ length: weeks }, (_, i) => ({ weekStart: addDays(thisWeek, (i - weeks + 1) * 7), plays: 0 }));
+  const index = new Map(out.map((w, i) => [w.weekStart, i]));
+  for (const e of log) {
+    const i = index.get(weekStartOf(localDateKey(new Date(e.playedAt))));
+    if (i != null) out[i].plays += 1;
+  }
+  return out;
+}
@@ -0,0 +1,49 @@
+/**
+ * How a play is run:
+ * - normal: enter up to the target count, then submit
+ * - exhaustive: no cap, graded live; done when every answer is found (or on give-up)
+ * - timed: like normal, against a countdown; submitted automatically at zero
+ * - choice: pick the answers out of candidates mixed with distractors (see choices.ts)
+ * - practice: like normal, but each answer is graded as soon as it is added; a wrong one frees its slot
+ */
+export type QuizMode = 'normal' | 'exhaustive' | 'timed' | 'choice' | 'practice';
+
+export const QUIZ_MODES: QuizMode[] = ['normal', 'practice', 'choice', 'exhaustive', 'timed'];
+
+/** Exhaustive mode is only offered for themes up to this many answers */
+export const EXHAUSTIVE_MAX_ANSWERS = 30;
+
+/** Modes worth offering for a theme with `answerCount` answers. */
+export function quizModesFor(answerCount: number): QuizMode[] {
+  return QUIZ_MODES.filter((m) => m !== 'exhaustive' || answerCount <= EXHAUSTIVE_MAX_ANSWERS);
+}
+
+export function quizModeLabel(mode: QuizMode): string {
+  if (mode === 'exhaustive') return '全部言えるか';
+  if (mode === 'timed') return '時間制限';
+  if (mode === 'choice') return '選択式';
+  if (mode === 'practice') return '練習';
+  return '通常';
+}
+
+/** Time limits offered in timed mode (seconds) */
+export type TimedSeconds = 60 | 90 | 180;
+
+export const TIMED_SECONDS_OPTIONS: TimedSeconds[] = [60, 90, 180];
+
+export const DEFAULT_TIMED_SECONDS: TimedSeconds = 90;
+
+const POINTS_PER_CORRECT = 100;
+const POINTS_PER_REMAINING_SECOND = 10;
+
+/**
+ * Timed mode score: 100 per correct answer, plus 10 per second left.
+ * The time bonus is scaled by the share of the target that was found,
+ * so submitting early with few answers does not pay off.
+ */
+export function timedPoints(correct: number, targetCount: number, remainingMs: number): number {
+  if (targetCount <= 0) return 0;
+  const accuracy = Math.min(1, correct / targetCount);
+  const remainingSeconds = Math.max(0, Math.floor(remainingMs / 1000));
+  return Math.round(correct * POINTS_PER_CORRECT + remainingSeconds * POINTS_PER_REMAINING_SECOND * accuracy);
+}
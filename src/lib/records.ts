@@ -1,14 +1,142 @@
-import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { QuizMode } from '@/src/lib/quiz-mode';
+import { readJson, subscribe, updateJson, writeJson } from '@/src/lib/storage';
 
+/**
+ * Aggregate counters shown on the record screens.
+ * Since records v2 these are not stored as such: loadStats() derives them from the play log
+ * (on top of the counters not backed by log entries, see PlayRecordsV3.baselines).
+ */
 export type PlayStatsV1 = {
   plays: number;
   perfects: number;
   playsByTheme: Record<string, number>;
   perfectsByTheme: Record<string, number>;
+  /** target key ('5' / '10' / '20' / 'all', see targetKey) -> count */
+  playsByTarget: Record<string, number>;
+  perfectsByTarget: Record<string, number>;
+  /** themeId -> target key -> count */
+  playsByThemeTarget: Record<string, Record<string, number>>;
+  perfectsByThemeTarget: Record<string, Record<string, number>>;
+  /** exhaustive mode: themeId -> times every answer was found */
+  completionsByTheme: Record<string, number>;
+  /** exhaustive mode: themeId -> fastest time to find every answer (ms) */
+  bestCompletionMsByTheme: Record<string, number>;
+  /** exhaustive mode: themeId -> time of the latest completion (ms) */
+  lastCompletionMsByTheme: Record<string, number>;
+  /**
+   * timed mode, kept apart from the counts above (timed plays are not in `plays`).
+   * themeId -> timed key (see timedRecordKey) -> count / best
+   */
+  timedPlaysByTheme: Record<string, Record<string, number>>;
+  timedBestByTheme: Record<string, Record<string, TimedBest>>;
+  /**
+   * practice mode (instant feedback), kept apart from the strict counts above.
+   * themeId -> target key -> count
+   */
+  practicePlaysByTheme: Record<string, Record<string, number>>;
+  practicePerfectsByTheme: Record<string, Record<string, number>>;
+  /** practice mode: themeId -> wrong answers entered in total */
+  practiceMistakesByTheme: Record<string, number>;
+  /** daily challenge: local date (YYYY-MM-DD) -> best result of that day */
+  dailyResults: Record<string, DailyResult>;
+  /** themeId -> hints used in total / plays that used at least one hint (every mode) */
+  hintsByTheme: Record<string, number>;
+  hintedPlaysByTheme: Record<string, number>;
   updatedAt: number;
 };
 
-const STORAGE_KEY = 'vocab-train:play-stats:v1';
+export type TimedBest = {
+  points: number;
+  correct: number;
+  remainingMs: number;
+  playedAt: number;
+};
+
+export type DailyResult = {
+  themeId: string;
+  /** score after hint costs */
+  score: number;
+  /** answers asked */
+  target: number;
+  perfect: boolean;
+  playedAt: number;
+};
+
+export type PlayMode = QuizMode | 'pairs';
+
+/** One finished play, as appended to the records log. */
+export type PlayLogEntry = {
+  playedAt: number;
+  /** device that recorded the play (see BaselinePart.origin) */
+  origin: string;
+  themeId: string;
+  mode: PlayMode;
+  /** record key of the target (targetKey()) */
+  target: string;
+  /** answers asked (the resolved target) */
+  asked: number;
+  /** score after hint costs */
+  score: number;
+  /** every asked answer found (exhaustive: and no hints) */
+  perfect: boolean;
+  /** inputs that matched no answer (practice: every input that did not fill a slot) */
+  wrong: string[];
+  /**
+   * answers the play asked for but did not get: every missed answer when the play covered the whole theme,
+   * the missed candidates in choice mode, and in plays of only part of a theme the missed answers that were
+   * hinted or reached for with an unscored near miss.
+   */
+  missing: string[];
+  hintsUsed: number;
+  /** exhaustive mode: every answer was found in this many ms */
+  completionMs?: number;
+  /** timed mode (timed plays don't count toward plays/perfects) */
+  timed?: {
+    seconds: number;
+    points: number;
+    /** correct answers before hint costs */
+    correct: number;
+    remainingMs: number;
+  };
+  /** daily challenge date (YYYY-MM-DD) when the play was the daily */
+  daily?: string;
+};
+
+/**
+ * Counters not backed by log entries, from one origin: plays migrated from v1 (which kept no per-play data)
+ * and log entries of that origin trimmed from the front of the log.
+ * Two parts of the same origin hold the same plays up to their foldedThrough, so a merge keeps the later one.
+ */
+export type BaselinePart = {
+  /** device id (entries recorded on that device), or "v2:..." for the baseline and log of a v2 save */
+  origin: string;
+  /** log entries of this origin played at or before this time are counted in `stats` (0: none yet) */
+  foldedThrough: number;
+  stats: PlayStatsV1;
+};
+
+export type PlayRecordsV3 = {
+  version: 3;
+  /** one part per origin */
+  baselines: BaselinePart[];
+  log: PlayLogEntry[];
+  updatedAt: number;
+};
+
+/** Version of the saved records; the save carries it so loadRecords() can upgrade older ones. */
+export const RECORDS_VERSION = 3;
+
+const STORAGE_KEY = 'vocab-train:records';
+/** v1 saved only the counters, under its own key (left in place after the migration) */
+const LEGACY_V1_KEY = 'vocab-train:play-stats:v1';
+/** Id of this install, the origin of the plays recorded here (not part of a backup) */
+const DEVICE_ID_KEY = 'vocab-train:device-id';
+
+/** Older entries are folded into the baseline, so counters stay exact while the log stays small */
+const MAX_LOG_ENTRIES = 2000;
+
+/** Plays recorded before targets were configurable were all "10 answers" */
+const LEGACY_TARGET_KEY = '10';
 
 export function createEmptyStats(): PlayStatsV1 {
   return {
@@ -16,44 +144,534 @@ export function createEmptyStats(): PlayStatsV1 {
     perfects: 0,
     playsByTheme: {},
     perfectsByTheme: {},
+    playsByTarget: {},
+    perfectsByTarget: {},
+    playsByThemeTarget: {},
+    perfectsByThemeTarget: {},
+    completionsByTheme: {},
+    bestCompletionMsByTheme: {},
+    lastCompletionMsByTheme: {},
+    timedPlaysByTheme: {},
+    timedBestByTheme: {},
+    practicePlaysByTheme: {},
+    practicePerfectsByTheme: {},
+    practiceMistakesByTheme: {},
+    dailyResults: {},
+    hintsByTheme: {},
+    hintedPlaysByTheme: {},
     updatedAt: Date.now(),
   };
 }
 
-export async function loadStats(): Promise<PlayStatsV1> {
-  try {
-    const raw = await AsyncStorage.getItem(STORAGE_KEY);
-    if (!raw) return createEmptyStats();
-    const parsed = JSON.parse(raw) as Partial<PlayStatsV1> | null;
-    if (!parsed || typeof parsed !== 'object') return createEmptyStats();
+export function createEmptyRecords(): PlayRecordsV3 {
+  return { version: RECORDS_VERSION, baselines: [], log: [], updatedAt: Date.now() };
+}
+
+function isRecord(x: unknown): x is Record<string, any> {
+  return !!x && typeof x === 'object' && !Array.isArray(x);
+}
+
+function isStringArray(x: unknown): x is string[] {
+  return Array.isArray(x) && x.every((v) => typeof v === 'string');
+}
+
+function legacyByTheme(byTheme: Record<string, number>): Record<string, Record<string, number>> {
+  const out: Record<string, Record<string, number>> = {};
+  for (const [themeId, n] of Object.entries(byTheme)) {
+    if (n > 0) out[themeId] = { [LEGACY_TARGET_KEY]: n };
+  }
+  return out;
+}
+
+/** Counters from a v1 save (or a v2 baseline); fields missing in older saves start empty. */
+function parseStats(x: unknown): PlayStatsV1 {
+  if (!isRecord(x)) return createEmptyStats();
+  const parsed = x as Partial<PlayStatsV1>;
+
+  const plays = typeof parsed.plays === 'number' ? parsed.plays : 0;
+  const perfects = typeof parsed.perfects === 'number' ? parsed.perfects : 0;
+  const playsByTheme = isRecord(parsed.playsByTheme) ? parsed.playsByTheme : {};
+  const perfectsByTheme = isRecord(parsed.perfectsByTheme) ? parsed.perfectsByTheme : {};
+  // Saves from before per-target counts: every play was a "10 answers" play
+  const byTarget = isRecord(parsed.playsByTarget)
+    ? {
+        playsByTarget: parsed.playsByTarget,
+        perfectsByTarget: isRecord(parsed.perfectsByTarget) ? parsed.perfectsByTarget : {},
+        playsByThemeTarget: isRecord(parsed.playsByThemeTarget) ? parsed.playsByThemeTarget : {},
+        perfectsByThemeTarget: isRecord(parsed.perfectsByThemeTarget) ? parsed.perfectsByThemeTarget : {},
+      }
+    : {
+        playsByTarget: plays > 0 ? { [LEGACY_TARGET_KEY]: plays } : {},
+        perfectsByTarget: perfects > 0 ? { [LEGACY_TARGET_KEY]: perfects } : {},
+        playsByThemeTarget: legacyByTheme(playsByTheme),
+        perfectsByThemeTarget: legacyByTheme(perfectsByTheme),
+      };
+
+  return {
+    plays,
+    perfects,
+    playsByTheme,
+    perfectsByTheme,
+    ...byTarget,
+    completionsByTheme: isRecord(parsed.completionsByTheme) ? parsed.completionsByTheme : {},
+    bestCompletionMsByTheme: isRecord(parsed.bestCompletionMsByTheme) ? parsed.bestCompletionMsByTheme : {},
+    lastCompletionMsByTheme: isRecord(parsed.lastCompletionMsByTheme) ? parsed.lastCompletionMsByTheme : {},
+    timedPlaysByTheme: isRecord(parsed.timedPlaysByTheme) ? parsed.timedPlaysByTheme : {},
+    timedBestByTheme: isRecord(parsed.timedBestByTheme) ? parsed.timedBestByTheme : {},
+    practicePlaysByTheme: isRecord(parsed.practicePlaysByTheme) ? parsed.practicePlaysByTheme : {},
+    practicePerfectsByTheme: isRecord(parsed.practicePerfectsByTheme) ? parsed.practicePerfectsByTheme : {},
+    practiceMistakesByTheme: isRecord(parsed.practiceMistakesByTheme) ? parsed.practiceMistakesByTheme : {},
+    dailyResults: isRecord(parsed.dailyResults) ? parsed.dailyResults : {},
+    hintsByTheme: isRecord(parsed.hintsByTheme) ? parsed.hintsByTheme : {},
+    hintedPlaysByTheme: isRecord(parsed.hintedPlaysByTheme) ? parsed.hintedPlaysByTheme : {},
+    updatedAt: typeof parsed.updatedAt === 'number' ? parsed.updatedAt : Date.now(),
+  };
+}
+
+const PLAY_MODES: PlayMode[] = ['normal', 'practice', 'choice', 'exhaustive', 'timed', 'pairs'];
+
+function isEmptyStats(stats: PlayStatsV1): boolean {
+  return JSON.stringify({ ...stats, updatedAt: 0 }) === JSON.stringify({ ...createEmptyStats(), updatedAt: 0 });
+}
+
+/** A log entry as saved, or null when it is not usable (it is then left out of the counters). */
+function parseLogEntry(x: unknown): PlayLogEntry | null {
+  if (!isRecord(x) || typeof x.themeId !== 'string' || typeof x.playedAt !== 'number') return null;
+  if (typeof x.origin !== 'string') return null;
+  const mode = PLAY_MODES.find((m) => m === x.mode);
+  if (!mode || typeof x.target !== 'string' || typeof x.score !== 'number') return null;
+
+  const t = x.timed;
+  const timed =
+    isRecord(t) &&
+    typeof t.seconds === 'number' &&
+    typeof t.points === 'number' &&
+    typeof t.correct === 'number' &&
+    typeof t.remainingMs === 'number'
+      ? { seconds: t.seconds, points: t.points, correct: t.correct, remainingMs: t.remainingMs }
+      : undefined;
+  if (mode === 'timed' && !timed) return null;
+
+  return {
+    playedAt: x.playedAt,
+    origin: x.origin,
+    themeId: x.themeId,
+    mode,
+    target: x.target,
+    asked: typeof x.asked === 'number' ? x.asked : 0,
+    score: x.score,
+    perfect: x.perfect === true,
+    wrong: isStringArray(x.wrong) ? x.wrong : [],
+    missing: isStringArray(x.missing) ? x.missing : [],
+    hintsUsed: typeof x.hintsUsed === 'number' ? x.hintsUsed : 0,
+    completionMs: typeof x.completionMs === 'number' ? x.completionMs : undefined,
+    timed,
+    daily: typeof x.daily === 'string' ? x.daily : undefined,
+  };
+}
+
+function parseBaselinePart(x: unknown): BaselinePart | null {
+  if (!isRecord(x) || typeof x.origin !== 'string') return null;
+  return {
+    origin: x.origin,
+    foldedThrough: typeof x.foldedThrough === 'number' ? x.foldedThrough : 0,
+    stats: parseStats(x.stats),
+  };
+}
 
+function parseRecordsV3(x: Record<string, any>): PlayRecordsV3 {
+  return {
+    version: RECORDS_VERSION,
+    baselines: Array.isArray(x.baselines)
+      ? x.baselines.map(parseBaselinePart).filter((p: BaselinePart | null): p is BaselinePart => p != null)
+      : [],
+    log: Array.isArray(x.log)
+      ? x.log.map(parseLogEntry).filter((e: PlayLogEntry | null): e is PlayLogEntry => e != null)
+      : [],
+    updatedAt: typeof x.updatedAt === 'number' ? x.updatedAt : Date.now(),
+  };
+}
+
+/**
+ * Schema upgrades: MIGRATIONS[n] turns a version-n save into a version-(n + 1) one.
+ * To change the shape of the records, bump RECORDS_VERSION and add the step here;
+ * loadRecords() runs the steps in order and saves the result, so no save is ever reset to empty.
+ */
+const MIGRATIONS: Record<number, (data: unknown) => unknown> = {
+  // v1 kept only counters: they become the baseline of an empty log
+  1: (v1) => ({ version: 2, baseline: parseStats(v1), log: [], updatedAt: Date.now() }),
+  // v2 had one baseline and no origins: the baseline and the log get one origin, taken from their contents,
+  // so this save and a v2 backup of it still match up in a merge
+  2: (v2) => {
+    const x = isRecord(v2) ? v2 : {};
+    const baseline = parseStats(x.baseline);
+    const log: unknown[] = Array.isArray(x.log) ? x.log : [];
+    const firstPlayedAt = Math.min(
+      ...log.map((e) => (isRecord(e) && typeof e.playedAt === 'number' ? e.playedAt : Infinity))
+    );
+    const origin = `v2:${hashString(JSON.stringify({ ...baseline, updatedAt: 0 }))}:${
+      Number.isFinite(firstPlayedAt) ? firstPlayedAt : 0
+    }`;
     return {
-      plays: typeof parsed.plays === 'number' ? parsed.plays : 0,
-      perfects: typeof parsed.perfects === 'number' ? parsed.perfects : 0,
-      playsByTheme: parsed.playsByTheme && typeof parsed.playsByTheme === 'object' ? parsed.playsByTheme : {},
-      perfectsByTheme:
-        parsed.perfectsByTheme && typeof parsed.perfectsByTheme === 'object' ? parsed.perfectsByTheme : {},
-      updatedAt: typeof parsed.updatedAt === 'number' ? parsed.updatedAt : Date.now(),
+      version: 3,
+      baselines: isEmptyStats(baseline) ? [] : [{ origin, foldedThrough: 0, stats: baseline }],
+      log: log.map((e) => (isRecord(e) ? { ...e, origin } : e)),
+      updatedAt: typeof x.updatedAt === 'number' ? x.updatedAt : Date.now(),
     };
+  },
+};
+
+/** FNV-1a (32 bit) as hex, for origins derived from contents */
+function hashString(text: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash.toString(16).padStart(8, '0');
+}
+
+/** Upgrade saved `data` of version `fromVersion` to the current records. Throws for unknown versions. */
+export function migrateRecords(data: unknown, fromVersion: number): PlayRecordsV3 {
+  if (fromVersion > RECORDS_VERSION) {
+    throw new Error(`records v${fromVersion} were saved by a newer app (this app reads up to v${RECORDS_VERSION})`);
+  }
+  let current = data;
+  for (let v = fromVersion; v < RECORDS_VERSION; v++) {
+    const step = MIGRATIONS[v];
+    if (!step) throw new Error(`no migration from records v${v}`);
+    current = step(current);
+  }
+  return parseRecordsV3(isRecord(current) ? current : {});
+}
+
+/**
+ * Records out of JSON data of any known version, e.g. an imported backup (throws like migrateRecords).
+ * Data without a version is a v1 save (v1 had no version field); no data at all is empty records.
+ */
+export function parseRecords(data: unknown): PlayRecordsV3 {
+  if (!isRecord(data)) return createEmptyRecords();
+  const version = typeof data.version === 'number' ? data.version : 1;
+  if (version === RECORDS_VERSION) return parseRecordsV3(data);
+  return migrateRecords(data, version);
+}
+
+/** Overwrite the saved records (a backup import). */
+export async function saveRecords(records: PlayRecordsV3): Promise<void> {
+  await writeJson(STORAGE_KEY, records);
+}
+
+/**
+ * The saved records upgraded to the current version, and whether that took a migration.
+ * Never writes: it is also the load step of the updates below, which run inside the write queue of the key.
+ */
+async function readRecords(): Promise<{ records: PlayRecordsV3; migrated: boolean }> {
+  const saved = await readJson(STORAGE_KEY);
+  if (saved != null) {
+    return { records: parseRecords(saved), migrated: isRecord(saved) && saved.version !== RECORDS_VERSION };
+  }
+  const legacy = await readJson(LEGACY_V1_KEY);
+  if (legacy == null) return { records: createEmptyRecords(), migrated: false };
+  return { records: migrateRecords(legacy, 1), migrated: true };
+}
+
+async function readCurrentRecords(): Promise<PlayRecordsV3> {
+  return (await readRecords()).records;
+}
+
+/**
+ * Change the saved records in turn with the other writes (e.g. a backup merge); resolves with the records as saved.
+ * Rejects like loadRecords when the save is from a newer version.
+ */
+export function updateRecords(update: (records: PlayRecordsV3) => PlayRecordsV3): Promise<PlayRecordsV3> {
+  return updateJson(STORAGE_KEY, readCurrentRecords, update);
+}
+
+/**
+ * The saved records, upgraded to the current version (a v1 save is migrated and saved on first load).
+ * A save that is not JSON falls back to its backup copy (see storage.ts);
+ * a save from a newer version throws, so nothing overwrites it.
+ */
+export async function loadRecords(): Promise<PlayRecordsV3> {
+  const { records, migrated } = await readRecords();
+  if (!migrated) return records;
+  // Read again inside the queue: a play recorded meanwhile is already in the current version
+  return updateJson(STORAGE_KEY, readCurrentRecords, (current) => current);
+}
+
+/** Call `listener` after every change of the saved records. Returns the unsubscribe function. */
+export function subscribeRecords(listener: () => void): () => void {
+  return subscribe(STORAGE_KEY, listener);
+}
+
+function addHints(stats: PlayStatsV1, themeId: string, hintsUsed: number | undefined) {
+  if (!hintsUsed || hintsUsed <= 0) return;
+  stats.hintsByTheme[themeId] = (stats.hintsByTheme[themeId] ?? 0) + hintsUsed;
+  stats.hintedPlaysByTheme[themeId] = (stats.hintedPlaysByTheme[themeId] ?? 0) + 1;
+}
+
+/**
+ * A daily challenge result. The day keeps its best score (a retry never lowers it),
+ * so "played today" and the streak only depend on whether a result exists.
+ */
+function addDailyResult(stats: PlayStatsV1, date: string, result: DailyResult) {
+  const prev = stats.dailyResults[date];
+  if (!prev || result.score > prev.score) {
+    stats.dailyResults[date] = { ...result, perfect: result.perfect || (prev?.perfect ?? false) };
+  } else if (result.perfect && !prev.perfect) {
+    stats.dailyResults[date] = { ...prev, perfect: true };
+  }
+}
+
+/** Add one log entry to the counters (mutates `stats`). */
+function applyEntry(stats: PlayStatsV1, e: PlayLogEntry) {
+  const { themeId } = e;
+
+  if (e.mode === 'timed' && e.timed) {
+    // Timed results are kept apart: they don't count toward plays/perfects
+    const key = timedRecordKey(e.timed.seconds, e.target);
+    const plays = (stats.timedPlaysByTheme[themeId] ??= {});
+    plays[key] = (plays[key] ?? 0) + 1;
+    const bests = (stats.timedBestByTheme[themeId] ??= {});
+    const best = bests[key];
+    if (!best || e.timed.points > best.points) {
+      bests[key] = {
+        points: e.timed.points,
+        correct: e.timed.correct,
+        remainingMs: e.timed.remainingMs,
+        playedAt: e.playedAt,
+      };
+    }
+  } else if (e.mode === 'practice') {
+    // Practice plays are kept apart from the strict counts as well
+    const plays = (stats.practicePlaysByTheme[themeId] ??= {});
+    plays[e.target] = (plays[e.target] ?? 0) + 1;
+    if (e.perfect) {
+      const perfects = (stats.practicePerfectsByTheme[themeId] ??= {});
+      perfects[e.target] = (perfects[e.target] ?? 0) + 1;
+    }
+    stats.practiceMistakesByTheme[themeId] = (stats.practiceMistakesByTheme[themeId] ?? 0) + e.wrong.length;
+  } else {
+    stats.plays += 1;
+    stats.playsByTheme[themeId] = (stats.playsByTheme[themeId] ?? 0) + 1;
+    stats.playsByTarget[e.target] = (stats.playsByTarget[e.target] ?? 0) + 1;
+    const themePlays = (stats.playsByThemeTarget[themeId] ??= {});
+    themePlays[e.target] = (themePlays[e.target] ?? 0) + 1;
+    if (e.perfect) {
+      stats.perfects += 1;
+      stats.perfectsByTheme[themeId] = (stats.perfectsByTheme[themeId] ?? 0) + 1;
+      stats.perfectsByTarget[e.target] = (stats.perfectsByTarget[e.target] ?? 0) + 1;
+      const themePerfects = (stats.perfectsByThemeTarget[themeId] ??= {});
+      themePerfects[e.target] = (themePerfects[e.target] ?? 0) + 1;
+    }
+
+    if (e.completionMs != null) {
+      stats.completionsByTheme[themeId] = (stats.completionsByTheme[themeId] ?? 0) + 1;
+      stats.lastCompletionMsByTheme[themeId] = e.completionMs;
+      const best = stats.bestCompletionMsByTheme[themeId];
+      if (best == null || e.completionMs < best) {
+        stats.bestCompletionMsByTheme[themeId] = e.completionMs;
+      }
+    }
+  }
+
+  addHints(stats, themeId, e.hintsUsed);
+  if (e.daily) {
+    addDailyResult(stats, e.daily, {
+      themeId,
+      score: e.score,
+      target: e.asked,
+      perfect: e.perfect,
+      playedAt: e.playedAt,
+    });
+  }
+}
+
+/** Counters of `records`: the baselines of every origin plus every log entry, oldest first. */
+export function deriveStats(records: PlayRecordsV3): PlayStatsV1 {
+  const stats = records.baselines.reduce((sum, part) => sumStats(sum, part.stats), createEmptyStats());
+  for (const e of records.log) applyEntry(stats, e);
+  stats.updatedAt = records.updatedAt;
+  return stats;
+}
+
+/** Counters for display. Unreadable records show as empty (they are never written back from here). */
+export async function loadStats(): Promise<PlayStatsV1> {
+  try {
+    return deriveStats(await loadRecords());
   } catch {
     return createEmptyStats();
   }
 }
 
-export async function recordPlay(themeId: string, isPerfect: boolean): Promise<PlayStatsV1> {
-  const stats = await loadStats();
+/** Every logged play, oldest first (plays migrated from v1 have no entries). */
+export async function loadPlayLog(): Promise<PlayLogEntry[]> {
+  try {
+    return (await loadRecords()).log;
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Fold log entries over MAX_LOG_ENTRIES into the baseline part of their origin, oldest first
+ * (mutates `records`; the parts it changes are replaced, not changed in place).
+ */
+function foldOverflow(records: PlayRecordsV3) {
+  const overflow = records.log.length - MAX_LOG_ENTRIES;
+  if (overflow <= 0) return;
+  const parts = new Map(records.baselines.map((p) => [p.origin, p]));
+  const folded = new Map<string, BaselinePart>();
+  for (const e of records.log.slice(0, overflow)) {
+    let part = folded.get(e.origin);
+    if (!part) {
+      const prev = parts.get(e.origin);
+      part = prev
+        ? { ...prev, stats: JSON.parse(JSON.stringify(prev.stats)) as PlayStatsV1 }
+        : { origin: e.origin, foldedThrough: 0, stats: createEmptyStats() };
+      folded.set(e.origin, part);
+      parts.set(e.origin, part);
+    }
+    applyEntry(part.stats, e);
+    part.foldedThrough = Math.max(part.foldedThrough, e.playedAt);
+  }
+  records.baselines = [...parts.values()];
+  records.log = records.log.slice(overflow);
+}
+
+let deviceId: Promise<string> | null = null;
+
+/** Id of this install, made and saved on first use (the origin of the plays recorded here). */
+function loadDeviceId(): Promise<string> {
+  deviceId ??= updateJson(
+    DEVICE_ID_KEY,
+    () => readJson(DEVICE_ID_KEY),
+    (current) =>
+      typeof current === 'string' && current
+        ? current
+        : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`
+  ).then(String);
+  // A failed read or write is tried again by the next play
+  deviceId.catch(() => {
+    deviceId = null;
+  });
+  return deviceId;
+}
+
+/**
+ * Record one finished play (every mode, including timed / practice / daily) and return the new counters.
+ * Entries over MAX_LOG_ENTRIES are folded into the baseline, oldest first.
+ * Plays recorded at the same time are saved in one write (storage.ts), none of them lost.
+ */
+export async function recordPlay(play: Omit<PlayLogEntry, 'playedAt' | 'origin'>): Promise<PlayStatsV1> {
+  const entry: PlayLogEntry = { ...play, playedAt: Date.now(), origin: await loadDeviceId() };
+  const records = await updateJson(STORAGE_KEY, readCurrentRecords, (current) => {
+    current.log.push(entry);
+    foldOverflow(current);
+    current.updatedAt = Date.now();
+    return current;
+  });
+  return deriveStats(records);
+}
+
+function sumCounts(a: Record<string, number>, b: Record<string, number>): Record<string, number> {
+  const out = { ...a };
+  for (const [k, n] of Object.entries(b)) out[k] = (out[k] ?? 0) + n;
+  return out;
+}
+
+function sumNestedCounts(
+  a: Record<string, Record<string, number>>,
+  b: Record<string, Record<string, number>>
+): Record<string, Record<string, number>> {
+  const out = { ...a };
+  for (const [k, counts] of Object.entries(b)) out[k] = sumCounts(out[k] ?? {}, counts);
+  return out;
+}
+
+/** Counters of two baselines added up (bests keep the better one, "latest" values the newer save). */
+function sumStats(a: PlayStatsV1, b: PlayStatsV1): PlayStatsV1 {
+  const [older, newer] = a.updatedAt <= b.updatedAt ? [a, b] : [b, a];
+  const out: PlayStatsV1 = {
+    plays: a.plays + b.plays,
+    perfects: a.perfects + b.perfects,
+    playsByTheme: sumCounts(a.playsByTheme, b.playsByTheme),
+    perfectsByTheme: sumCounts(a.perfectsByTheme, b.perfectsByTheme),
+    playsByTarget: sumCounts(a.playsByTarget, b.playsByTarget),
+    perfectsByTarget: sumCounts(a.perfectsByTarget, b.perfectsByTarget),
+    playsByThemeTarget: sumNestedCounts(a.playsByThemeTarget, b.playsByThemeTarget),
+    perfectsByThemeTarget: sumNestedCounts(a.perfectsByThemeTarget, b.perfectsByThemeTarget),
+    completionsByTheme: sumCounts(a.completionsByTheme, b.completionsByTheme),
+    bestCompletionMsByTheme: { ...a.bestCompletionMsByTheme },
+    lastCompletionMsByTheme: { ...older.lastCompletionMsByTheme, ...newer.lastCompletionMsByTheme },
+    timedPlaysByTheme: sumNestedCounts(a.timedPlaysByTheme, b.timedPlaysByTheme),
+    timedBestByTheme: JSON.parse(JSON.stringify(a.timedBestByTheme)),
+    practicePlaysByTheme: sumNestedCounts(a.practicePlaysByTheme, b.practicePlaysByTheme),
+    practicePerfectsByTheme: sumNestedCounts(a.practicePerfectsByTheme, b.practicePerfectsByTheme),
+    practiceMistakesByTheme: sumCounts(a.practiceMistakesByTheme, b.practiceMistakesByTheme),
+    dailyResults: { ...a.dailyResults },
+    hintsByTheme: sumCounts(a.hintsByTheme, b.hintsByTheme),
+    hintedPlaysByTheme: sumCounts(a.hintedPlaysByTheme, b.hintedPlaysByTheme),
+    updatedAt: newer.updatedAt,
+  };
+  for (const [themeId, ms] of Object.entries(b.bestCompletionMsByTheme)) {
+    const best = out.bestCompletionMsByTheme[themeId];
+    if (best == null || ms < best) out.bestCompletionMsByTheme[themeId] = ms;
+  }
+  for (const [themeId, bests] of Object.entries(b.timedBestByTheme)) {
+    const into = (out.timedBestByTheme[themeId] ??= {});
+    for (const [key, best] of Object.entries(bests)) {
+      if (!into[key] || best.points > into[key].points) into[key] = best;
+    }
+  }
+  for (const [date, result] of Object.entries(b.dailyResults)) addDailyResult(out, date, result);
+  return out;
+}
 
-  stats.plays += 1;
-  if (isPerfect) stats.perfects += 1;
+/** Identity of a log entry across devices and backups */
+function logEntryKey(e: PlayLogEntry): string {
+  return `${e.playedAt}\n${e.themeId}\n${e.mode}`;
+}
 
-  stats.playsByTheme[themeId] = (stats.playsByTheme[themeId] ?? 0) + 1;
-  if (isPerfect) {
-    stats.perfectsByTheme[themeId] = (stats.perfectsByTheme[themeId] ?? 0) + 1;
+/**
+ * `a` and `b` as one, counting no play twice:
+ * - baselines: one part per origin, the one folded further (the same device's counters are never added up)
+ * - log: both without duplicates, leaving out entries the chosen part of their origin has folded already
+ *   (an older backup of this device brings back entries folded since)
+ */
+export function mergeRecords(a: PlayRecordsV3, b: PlayRecordsV3): PlayRecordsV3 {
+  const parts = new Map<string, BaselinePart>();
+  for (const part of [...a.baselines, ...b.baselines]) {
+    const prev = parts.get(part.origin);
+    if (!prev || part.foldedThrough > prev.foldedThrough) parts.set(part.origin, part);
   }
+  const isFolded = (e: PlayLogEntry) => e.playedAt <= (parts.get(e.origin)?.foldedThrough ?? 0);
 
-  stats.updatedAt = Date.now();
-  await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(stats));
-  return stats;
+  const log = new Map<string, PlayLogEntry>();
+  for (const e of [...a.log, ...b.log]) {
+    if (!isFolded(e) && !log.has(logEntryKey(e))) log.set(logEntryKey(e), e);
+  }
+
+  const merged: PlayRecordsV3 = {
+    version: RECORDS_VERSION,
+    baselines: [...parts.values()],
+    log: [...log.values()].sort((x, y) => x.playedAt - y.playedAt),
+    updatedAt: Math.max(a.updatedAt, b.updatedAt),
+  };
+  foldOverflow(merged);
+  return merged;
+}
+
+/** Timed results are only comparable for the same time limit and target: "90:10", "60:all" ... */
+export function timedRecordKey(seconds: number, target: string): string {
+  return `${seconds}:${target}`;
+}
+
+export function parseTimedRecordKey(key: string): { seconds: number; target: string } | null {
+  const [seconds, target] = key.split(':');
+  const n = Number(seconds);
+  if (!Number.isFinite(n) || !target) return null;
+  return { seconds: n, target };
 }
 
 export function rate(perfects: number, plays: number): number {
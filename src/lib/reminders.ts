@@ -0,0 +1,111 @@
+import * as Notifications from 'expo-notifications';
+import { Platform } from 'react-native';
+
+import { addDays, localDateKey } from '@/src/lib/daily';
+import { goalProgress, goalUnit, loadGoalSettings } from '@/src/lib/goals';
+import { loadPlayLog } from '@/src/lib/records';
+
+/**
+ * Local "goal not met yet" reminders (expo-notifications).
+ * One DATE notification is scheduled per day for the next REMINDER_DAYS days, and today's is left out once
+ * the goal is met. So call refreshGoalReminders() after every recorded play, on launch and when the settings
+ * change; a day without launching still gets its reminder from the earlier schedule.
+ * Nothing happens on web.
+ */
+
+/** Days scheduled ahead (today included) */
+export const REMINDER_DAYS = 14;
+
+const IDENTIFIER_PREFIX = 'goal-reminder:';
+const ANDROID_CHANNEL_ID = 'goal-reminders';
+
+export function remindersSupported(): boolean {
+  return Platform.OS !== 'web';
+}
+
+/** Asks for the permission if not decided yet. false when denied (or unsupported). */
+export async function ensureReminderPermission(): Promise<boolean> {
+  if (!remindersSupported()) return false;
+  const current = await Notifications.getPermissionsAsync();
+  if (current.granted) return true;
+  if (!current.canAskAgain) return false;
+  const asked = await Notifications.requestPermissionsAsync();
+  return asked.granted;
+}
+
+async function cancelGoalReminders(): Promise<void> {
+  const scheduled = await Notifications.getAllScheduledNotificationsAsync();
+  await Promise.all(
+    scheduled
+      .filter((n) => n.identifier.startsWith(IDENTIFIER_PREFIX))
+      .map((n) => Notifications.cancelScheduledNotificationAsync(n.identifier)),
+  );
+}
+
+/** The latest refresh (the next one waits for it), and the one not started yet (new calls join it) */
+let lastRefresh: Promise<void> = Promise.resolve();
+let waitingRefresh: Promise<void> | null = null;
+
+/**
+ * Reschedules the reminders from the saved settings and today's progress. Errors are swallowed (best effort).
+ * Refreshes run one at a time and each reads the settings when it starts, so the last one always schedules
+ * the latest saved time; calls made while one is waiting to start share it.
+ */
+export function refreshGoalReminders(now?: Date): Promise<void> {
+  if (waitingRefresh) return waitingRefresh;
+  const run = lastRefresh.then(() => {
+    waitingRefresh = null;
+    return rescheduleGoalReminders(now ?? new Date());
+  });
+  waitingRefresh = run;
+  lastRefresh = run;
+  return run;
+}
+
+async function rescheduleGoalReminders(now: Date): Promise<void> {
+  if (!remindersSupported()) return;
+  try {
+    const [settings, log] = await Promise.all([loadGoalSettings(), loadPlayLog()]);
+    await cancelGoalReminders();
+    if (!settings.reminder.enabled) return;
+    const permission = await Notifications.getPermissionsAsync();
+    if (!permission.granted) return;
+
+    if (Platform.OS === 'android') {
+      await Notifications.setNotificationChannelAsync(ANDROID_CHANNEL_ID, {
+        name: '学習リマインダー',
+        importance: Notifications.AndroidImportance.DEFAULT,
+      });
+    }
+
+    const today = localDateKey(now);
+    const { goal } = settings;
+    const todayProgress = goalProgress(log, goal, today);
+    const hour = Math.floor(settings.reminder.minuteOfDay / 60);
+    const minute = settings.reminder.minuteOfDay % 60;
+
+    for (let i = 0; i < REMINDER_DAYS; i++) {
+      const day = addDays(today, i);
+      if (i === 0 && todayProgress.met) continue;
+      const [y, m, d] = day.split('-').map(Number);
+      const date = new Date(y, m - 1, d, hour, minute);
+      if (date.getTime() <= now.getTime()) continue;
+
+      const left = i === 0 ? goal.amount - todayProgress.done : goal.amount;
+      await Notifications.scheduleNotificationAsync({
+        identifier: `${IDENTIFIER_PREFIX}${day}`,
+        content: {
+          title: '今日の目標がまだです',
+          body: `あと${left}${goalUnit(goal.kind)}で今日の目標を達成できます`,
+        },
+        trigger: {
+          type: Notifications.SchedulableTriggerInputTypes.DATE,
+          date,
+          channelId: Platform.OS === 'android' ? ANDROID_CHANNEL_ID : undefined,
+        },
+      });
+    }
+  } catch {
+    // Reminders are a nice-to-have: never let them break a play or the records
+  }
+}
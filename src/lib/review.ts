@@ -0,0 +1,223 @@
+import type { ThemeMeta } from '@/datasets/themes';
+import { countryPlaceLabel, getCountryFacts } from '@/src/lib/countries';
+import { addDays } from '@/src/lib/daily';
+import { gradeAnswers, type MatchKind } from '@/src/lib/grading';
+import { gradePairAnswer } from '@/src/lib/pairs';
+import { readJson, updateJson, writeJson } from '@/src/lib/storage';
+
+/**
+ * Spaced-repetition state of one answer of one theme (SM-2).
+ * A hit in a play is a successful recall, an answer the play asked for but the user did not give is a lapse.
+ */
+export type ReviewCard = {
+  themeId: string;
+  /** canonical answer (pairs themes: answers[0] of the card) */
+  answer: string;
+  /** pairs themes: prompt of the card */
+  prompt?: string;
+  ease: number;
+  intervalDays: number;
+  /** successful recalls in a row */
+  reps: number;
+  lapses: number;
+  /** next review date, YYYY-MM-DD */
+  due: string;
+  /** date of the latest outcome, YYYY-MM-DD */
+  lastReviewed: string;
+};
+
+export type ReviewStoreV1 = {
+  /** reviewCardKey(themeId, answer) -> card */
+  cards: Record<string, ReviewCard>;
+  updatedAt: number;
+};
+
+export type ReviewOutcome = {
+  answer: string;
+  recalled: boolean;
+  prompt?: string;
+};
+
+/** Result of answering one card in a review session */
+export type ReviewAnswerResult = {
+  input: string;
+  correct: boolean;
+  kind: MatchKind;
+};
+
+const STORAGE_KEY = 'vocab-train:review:v1';
+
+const INITIAL_EASE = 2.5;
+const MIN_EASE = 1.3;
+/** SM-2 response quality (0-5) given to a hit / a lapse */
+const RECALL_QUALITY = 4;
+const LAPSE_QUALITY = 1;
+
+/** Cards in one review session at most */
+export const REVIEW_SESSION_SIZE = 20;
+
+export function reviewCardKey(themeId: string, answer: string): string {
+  return `${themeId}\n${answer}`;
+}
+
+export function createEmptyReviewStore(): ReviewStoreV1 {
+  return { cards: {}, updatedAt: Date.now() };
+}
+
+function isReviewCard(x: unknown): x is ReviewCard {
+  if (!x || typeof x !== 'object') return false;
+  const c = x as Partial<ReviewCard>;
+  return (
+    typeof c.themeId === 'string' &&
+    typeof c.answer === 'string' &&
+    (c.prompt == null || typeof c.prompt === 'string') &&
+    typeof c.ease === 'number' &&
+    typeof c.intervalDays === 'number' &&
+    typeof c.reps === 'number' &&
+    typeof c.lapses === 'number' &&
+    typeof c.due === 'string' &&
+    typeof c.lastReviewed === 'string'
+  );
+}
+
+/** Review store out of saved (or imported) JSON data; cards of the wrong shape are dropped. */
+export function parseReviewStore(x: unknown): ReviewStoreV1 {
+  const parsed = x as Partial<ReviewStoreV1> | null;
+  if (!parsed || typeof parsed !== 'object' || !parsed.cards || typeof parsed.cards !== 'object') {
+    return createEmptyReviewStore();
+  }
+  const cards: Record<string, ReviewCard> = {};
+  for (const card of Object.values(parsed.cards)) {
+    if (isReviewCard(card)) cards[reviewCardKey(card.themeId, card.answer)] = card;
+  }
+  return {
+    cards,
+    updatedAt: typeof parsed.updatedAt === 'number' ? parsed.updatedAt : Date.now(),
+  };
+}
+
+export async function loadReviewStore(): Promise<ReviewStoreV1> {
+  try {
+    return parseReviewStore(await readJson(STORAGE_KEY));
+  } catch {
+    return createEmptyReviewStore();
+  }
+}
+
+export async function saveReviewStore(store: ReviewStoreV1): Promise<void> {
+  await writeJson(STORAGE_KEY, store);
+}
+
+/** Change the saved store in turn with the other writes (e.g. a backup merge); returns the new store. */
+export function updateReviewStore(update: (store: ReviewStoreV1) => ReviewStoreV1): Promise<ReviewStoreV1> {
+  return updateJson(STORAGE_KEY, loadReviewStore, update);
+}
+
+/**
+ * SM-2 step for one outcome on `today`.
+ * - recall: interval 1 day -> 6 days -> previous interval x ease
+ * - lapse: back to 1 day (reps reset), ease goes down (never below MIN_EASE)
+ * An outcome that repeats the one already given today changes nothing (replaying a theme
+ * the same day must not push an answer weeks ahead).
+ */
+export function scheduleReview(
+  card: ReviewCard | undefined,
+  themeId: string,
+  outcome: ReviewOutcome,
+  today: string
+): ReviewCard {
+  if (card && card.lastReviewed === today && (card.reps > 0) === outcome.recalled) return card;
+
+  const prevEase = card?.ease ?? INITIAL_EASE;
+  const q = outcome.recalled ? RECALL_QUALITY : LAPSE_QUALITY;
+  const ease = Math.max(MIN_EASE, prevEase + 0.1 - (5 - q) * (0.08 + (5 - q) * 0.02));
+
+  const reps = outcome.recalled ? (card?.reps ?? 0) + 1 : 0;
+  const intervalDays = !outcome.recalled
+    ? 1
+    : reps === 1
+      ? 1
+      : reps === 2
+        ? 6
+        : Math.round((card?.intervalDays ?? 1) * ease);
+
+  return {
+    themeId,
+    answer: outcome.answer,
+    prompt: outcome.prompt ?? card?.prompt,
+    ease,
+    intervalDays,
+    reps,
+    lapses: (card?.lapses ?? 0) + (outcome.recalled ? 0 : 1),
+    due: addDays(today, intervalDays),
+    lastReviewed: today,
+  };
+}
+
+/** Apply the outcomes of one play (or one review answer) and save. */
+export async function recordReviewOutcomes(
+  themeId: string,
+  outcomes: ReviewOutcome[],
+  today: string
+): Promise<ReviewStoreV1> {
+  if (outcomes.length === 0) return loadReviewStore();
+
+  return updateJson(STORAGE_KEY, loadReviewStore, (store) => {
+    for (const outcome of outcomes) {
+      const key = reviewCardKey(themeId, outcome.answer);
+      store.cards[key] = scheduleReview(store.cards[key], themeId, outcome, today);
+    }
+    store.updatedAt = Date.now();
+    return store;
+  });
+}
+
+/**
+ * Cards due on `today` across themes, most overdue first (then the hardest, lowest ease).
+ * Cards whose theme is gone are skipped.
+ */
+export function dueReviewCards(store: ReviewStoreV1, today: string, themes: ThemeMeta[]): ReviewCard[] {
+  const themeIds = new Set(themes.map((t) => t.id));
+  return Object.values(store.cards)
+    .filter((c) => c.due <= today && themeIds.has(c.themeId))
+    .sort((a, b) => (a.due < b.due ? -1 : a.due > b.due ? 1 : a.ease - b.ease));
+}
+
+/**
+ * What the review card shows: the pairs prompt, or for list themes the theme title
+ * plus countries_base facts (region, landlocked) and the character count.
+ */
+export function reviewClues(card: ReviewCard, theme: ThemeMeta): string[] {
+  const d = theme.dataset;
+  if (d.kind === 'pairs') {
+    return [card.prompt ?? d.title];
+  }
+
+  const clues = [`「${d.title}」の答え`];
+  const entityId = d.entityIds[card.answer];
+  const facts = entityId ? getCountryFacts(entityId) : null;
+  const place = countryPlaceLabel(facts);
+  if (place) clues.push(`地域: ${place}`);
+  if (facts?.landlocked) clues.push('海に面していない');
+  clues.push(`${Array.from(card.answer).length}文字`);
+  return clues;
+}
+
+/** Grade a review answer with the theme's own aliases/readings/normalization. */
+export function gradeReviewAnswer(card: ReviewCard, theme: ThemeMeta, input: string): ReviewAnswerResult {
+  const d = theme.dataset;
+  if (d.kind === 'pairs') {
+    const item = d.items.find((it) => it.prompt === card.prompt) ?? { prompt: card.prompt ?? '', answers: [card.answer] };
+    const r = gradePairAnswer(item, input, { nearMissPolicy: d.nearMissPolicy, profile: d.normalizeProfile });
+    return { input: r.input, correct: r.correct, kind: r.kind };
+  }
+
+  const r = gradeAnswers([input], [card.answer], {
+    aliases: d.aliases,
+    readings: d.readings,
+    entityIds: d.entityIds,
+    nearMissPolicy: d.nearMissPolicy,
+    profile: d.normalizeProfile,
+  });
+  return { input: input.trim(), correct: r.hits.length > 0, kind: r.trace[0]?.kind ?? 'none' };
+}
@@ -0,0 +1,161 @@
+/**
+ * Romaji -> hiragana conversion (for answering kana themes with a latin keyboard).
+ *
+ * Rules:
+ * - Hepburn and Kunrei spellings are both accepted (shi/si, chi/ti, tsu/tu, fu/hu, ji/zi, sha/sya ...)
+ * - "nn" / "n'" / "n" before a consonant or at the end -> ん ("m" before b/m/p too, e.g. "shimbun").
+ *   "nn" before a vowel or "y" is ん + な行 ("konnichiha" -> こんにちは, "sonna" -> そんな)
+ * - Doubled consonants -> っ ("tch" as well, e.g. "matcha")
+ * - Long vowels are written as ー, like in katakana loanwords:
+ *   doubled vowels ("oo", "aa" ...), macron/circumflex vowels ("ō", "ô") and "-".
+ *   "ou" stays おう ("toukyou" -> とうきょう); the romaji profile of normalizeAnswer then reads お段 + う
+ *   as a long vowel on both sides ("tougo" matches トーゴ)
+ * - Letters that do not form a syllable are kept as-is
+ *
+ * Input is expected to be lowercased already (normalizeAnswer does that first).
+ */
+export function romajiToHiragana(input: string): string {
+  let out = '';
+  let i = 0;
+  // Long vowels with diacritics are spelled out first: "pō" -> "po-" (-> ぽー)
+  const s = Array.from(input, (c) => (MARKED_VOWELS[c] ? `${MARKED_VOWELS[c]}-` : c)).join('');
+
+  while (i < s.length) {
+    const ch = s[i];
+
+    if (ch === '-') {
+      out += 'ー';
+      i += 1;
+      continue;
+    }
+
+    if (!/[a-z]/.test(ch)) {
+      out += ch;
+      i += 1;
+      continue;
+    }
+
+    const next = s[i + 1] ?? '';
+
+    // ん: "nn", "n'", "n" + (consonant except y | end)
+    if (ch === 'n') {
+      if (next === 'n') {
+        out += 'ん';
+        // "nna" = ん + な: the second n starts the next syllable
+        i += /[aiueoy]/.test(s[i + 2] ?? '') ? 1 : 2;
+        continue;
+      }
+      if (next === "'") {
+        out += 'ん';
+        i += 2;
+        continue;
+      }
+      if (next === '' || !/[aiueoy]/.test(next)) {
+        out += 'ん';
+        i += 1;
+        continue;
+      }
+    }
+    if (ch === 'm' && /[bmp]/.test(next)) {
+      out += 'ん';
+      i += 1;
+      continue;
+    }
+
+    // っ: doubled consonant ("kk", "ss" ...) or "tch"
+    if ((ch === next && !/[aiueon]/.test(ch)) || (ch === 't' && next === 'c' && s[i + 2] === 'h')) {
+      out += 'っ';
+      i += 1;
+      continue;
+    }
+
+    // Longest syllable match first
+    let matched = false;
+    for (let len = 4; len >= 1; len--) {
+      const chunk = s.slice(i, i + len);
+      const kana = SYLLABLES[chunk];
+      if (kana == null) continue;
+      out += kana;
+      i += len;
+      matched = true;
+
+      // Long vowel: same vowel repeated
+      const vowel = chunk[chunk.length - 1];
+      if (/[aiueo]/.test(vowel) && s[i] === vowel) {
+        out += 'ー';
+        i += 1;
+      }
+      break;
+    }
+    if (matched) continue;
+
+    out += ch;
+    i += 1;
+  }
+
+  return out;
+}
+
+const MARKED_VOWELS: Record<string, string> = {
+  ā: 'a',
+  ī: 'i',
+  ū: 'u',
+  ē: 'e',
+  ō: 'o',
+  â: 'a',
+  î: 'i',
+  û: 'u',
+  ê: 'e',
+  ô: 'o',
+};
+
+const SYLLABLES: Record<string, string> = {
+  a: 'あ', i: 'い', u: 'う', e: 'え', o: 'お',
+  ka: 'か', ki: 'き', ku: 'く', ke: 'け', ko: 'こ',
+  ga: 'が', gi: 'ぎ', gu: 'ぐ', ge: 'げ', go: 'ご',
+  sa: 'さ', si: 'し', shi: 'し', su: 'す', se: 'せ', so: 'そ',
+  za: 'ざ', zi: 'じ', ji: 'じ', zu: 'ず', ze: 'ぜ', zo: 'ぞ',
+  ta: 'た', ti: 'ち', chi: 'ち', tu: 'つ', tsu: 'つ', te: 'て', to: 'と',
+  da: 'だ', di: 'ぢ', du: 'づ', de: 'で', do: 'ど',
+  na: 'な', ni: 'に', nu: 'ぬ', ne: 'ね', no: 'の',
+  ha: 'は', hi: 'ひ', hu: 'ふ', fu: 'ふ', he: 'へ', ho: 'ほ',
+  ba: 'ば', bi: 'び', bu: 'ぶ', be: 'べ', bo: 'ぼ',
+  pa: 'ぱ', pi: 'ぴ', pu: 'ぷ', pe: 'ぺ', po: 'ぽ',
+  ma: 'ま', mi: 'み', mu: 'む', me: 'め', mo: 'も',
+  ya: 'や', yu: 'ゆ', yo: 'よ',
+  ra: 'ら', ri: 'り', ru: 'る', re: 'れ', ro: 'ろ',
+  la: 'ら', li: 'り', lu: 'る', le: 'れ', lo: 'ろ',
+  wa: 'わ', wo: 'を', wi: 'うぃ', we: 'うぇ',
+  va: 'ゔぁ', vi: 'ゔぃ', vu: 'ゔ', ve: 'ゔぇ', vo: 'ゔぉ',
+
+  // 拗音 (Hepburn / Kunrei)
+  kya: 'きゃ', kyu: 'きゅ', kyo: 'きょ',
+  gya: 'ぎゃ', gyu: 'ぎゅ', gyo: 'ぎょ',
+  sha: 'しゃ', shu: 'しゅ', sho: 'しょ', she: 'しぇ',
+  sya: 'しゃ', syu: 'しゅ', syo: 'しょ',
+  ja: 'じゃ', ju: 'じゅ', jo: 'じょ', je: 'じぇ',
+  zya: 'じゃ', zyu: 'じゅ', zyo: 'じょ',
+  jya: 'じゃ', jyu: 'じゅ', jyo: 'じょ',
+  cha: 'ちゃ', chu: 'ちゅ', cho: 'ちょ', che: 'ちぇ',
+  tya: 'ちゃ', tyu: 'ちゅ', tyo: 'ちょ',
+  cya: 'ちゃ', cyu: 'ちゅ', cyo: 'ちょ',
+  nya: 'にゃ', nyu: 'にゅ', nyo: 'にょ',
+  hya: 'ひゃ', hyu: 'ひゅ', hyo: 'ひょ',
+  bya: 'びゃ', byu: 'びゅ', byo: 'びょ',
+  pya: 'ぴゃ', pyu: 'ぴゅ', pyo: 'ぴょ',
+  mya: 'みゃ', myu: 'みゅ', myo: 'みょ',
+  rya: 'りゃ', ryu: 'りゅ', ryo: 'りょ',
+  lya: 'りゃ', lyu: 'りゅ', lyo: 'りょ',
+
+  // 外来語でよく使う組み合わせ
+  fa: 'ふぁ', fi: 'ふぃ', fe: 'ふぇ', fo: 'ふぉ', fyu: 'ふゅ',
+  thi: 'てぃ', thu: 'てゅ', dhi: 'でぃ', dhu: 'でゅ',
+  twu: 'とぅ', dwu: 'どぅ',
+  tsa: 'つぁ', tsi: 'つぃ', tse: 'つぇ', tso: 'つぉ',
+  ye: 'いぇ', kwa: 'くぁ', gwa: 'ぐぁ',
+
+  // 小書き (x / l 始まり)
+  xa: 'ぁ', xi: 'ぃ', xu: 'ぅ', xe: 'ぇ', xo: 'ぉ',
+  xya: 'ゃ', xyu: 'ゅ', xyo: 'ょ',
+  xtu: 'っ', xtsu: 'っ', ltu: 'っ', ltsu: 'っ',
+};
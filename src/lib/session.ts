@@ -0,0 +1,96 @@
+import type { IncrementalGrade } from '@/src/lib/grading';
+import type { HintState } from '@/src/lib/hints';
+import {
+  DEFAULT_TIMED_SECONDS,
+  QUIZ_MODES,
+  TIMED_SECONDS_OPTIONS,
+  type QuizMode,
+  type TimedSeconds,
+} from '@/src/lib/quiz-mode';
+import { readJson, removeJson, writeJson } from '@/src/lib/storage';
+import { isTargetCount, type TargetCount } from '@/src/lib/target';
+
+/**
+ * The play in progress on the quiz screen, saved as it changes so it survives the app being killed.
+ * Only list-theme plays are saved (pairs cards and review sessions are short and kept in memory).
+ */
+export type QuizSessionV1 = {
+  themeId: string;
+  mode: QuizMode;
+  target: TargetCount;
+  acceptEnglish: boolean;
+  /** chips entered so far */
+  items: { raw: string; norm: string }[];
+  /** choice mode: the candidates on screen (so the chips still match them after a restore) */
+  choices: string[] | null;
+  /** practice mode: grade of each chip (normalized -> grade) */
+  practiceGrades: Record<string, IncrementalGrade>;
+  hint: HintState | null;
+  hintsUsed: number;
+  /** answers hinted so far (they count as asked for the review schedule) */
+  hintedAnswers: string[];
+  timedSeconds: TimedSeconds;
+  /** timed mode: wall-clock start, so the countdown keeps running while the app is gone */
+  timerStartedAt: number | null;
+  /** exhaustive mode: time of the first answer */
+  exhaustiveStartedAt: number | null;
+  /** daily challenge date (YYYY-MM-DD) when the play is the daily */
+  dailyDate: string | null;
+  savedAt: number;
+};
+
+const STORAGE_KEY = 'vocab-train:session:v1';
+
+function isRecord(x: unknown): x is Record<string, any> {
+  return !!x && typeof x === 'object' && !Array.isArray(x);
+}
+
+function isStringArray(x: unknown): x is string[] {
+  return Array.isArray(x) && x.every((v) => typeof v === 'string');
+}
+
+/** The saved session, or null when there is none (or it cannot be read). */
+export async function loadSession(): Promise<QuizSessionV1 | null> {
+  try {
+    const s = await readJson(STORAGE_KEY);
+    if (!isRecord(s) || typeof s.themeId !== 'string' || !Array.isArray(s.items)) return null;
+
+    const items = s.items.filter(
+      (x: unknown): x is { raw: string; norm: string } =>
+        isRecord(x) && typeof x.raw === 'string' && typeof x.norm === 'string'
+    );
+    const timedSeconds = TIMED_SECONDS_OPTIONS.find((t) => t === s.timedSeconds) ?? DEFAULT_TIMED_SECONDS;
+
+    return {
+      themeId: s.themeId,
+      mode: QUIZ_MODES.find((m) => m === s.mode) ?? 'normal',
+      target: isTargetCount(s.target) ? s.target : 'all',
+      acceptEnglish: s.acceptEnglish === true,
+      items,
+      choices: isStringArray(s.choices) ? s.choices : null,
+      practiceGrades: isRecord(s.practiceGrades) ? s.practiceGrades : {},
+      hint:
+        isRecord(s.hint) && typeof s.hint.answer === 'string' && typeof s.hint.shown === 'number'
+          ? { answer: s.hint.answer, shown: s.hint.shown }
+          : null,
+      hintsUsed: typeof s.hintsUsed === 'number' ? s.hintsUsed : 0,
+      hintedAnswers: isStringArray(s.hintedAnswers) ? s.hintedAnswers : [],
+      timedSeconds,
+      timerStartedAt: typeof s.timerStartedAt === 'number' ? s.timerStartedAt : null,
+      exhaustiveStartedAt: typeof s.exhaustiveStartedAt === 'number' ? s.exhaustiveStartedAt : null,
+      dailyDate: typeof s.dailyDate === 'string' ? s.dailyDate : null,
+      savedAt: typeof s.savedAt === 'number' ? s.savedAt : Date.now(),
+    };
+  } catch {
+    return null;
+  }
+}
+
+export async function saveSession(session: QuizSessionV1): Promise<void> {
+  await writeJson(STORAGE_KEY, session);
+}
+
+/** Forget the saved session (after submit / reset / discarding the restore offer). */
+export async function clearSession(): Promise<void> {
+  await removeJson(STORAGE_KEY);
+}
@@ -0,0 +1,173 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+/**
+ * JSON storage over AsyncStorage, shared by every store (records, review, favorites, multiplayer, goals, session).
+ * - Writes of one key run one at a time, in call order, so a load -> change -> save can't overwrite another one.
+ * - Updates of a key that arrive while its previous write is still running are applied together:
+ *   one read, every update in order, one write.
+ * - Every write also keeps a backup copy, taken only once the new save reads back as JSON. A save that is
+ *   not JSON is moved aside (`<key>:corrupt`) and the backup is read instead, so one broken write never
+ *   resets a store to empty.
+ * - subscribe() listeners run after each write of their key (screens update without reloading on focus).
+ */
+
+type Step = {
+  update: (current: unknown) => unknown;
+  resolve: (value: unknown) => void;
+  reject: (error: unknown) => void;
+};
+
+type Batch = {
+  load: () => Promise<unknown>;
+  steps: Step[];
+};
+
+/** key -> the latest queued task (the next one waits for it) */
+const queues = new Map<string, Promise<void>>();
+/** key -> updates not started yet (new ones join them) */
+const batches = new Map<string, Batch>();
+const listeners = new Map<string, Set<() => void>>();
+
+function backupKey(key: string): string {
+  return `${key}:backup`;
+}
+
+function corruptKey(key: string): string {
+  return `${key}:corrupt`;
+}
+
+/** Run `task` after every task queued before it for `key` (whether they failed or not). */
+function enqueue(key: string, task: () => Promise<void>): Promise<void> {
+  const run = (queues.get(key) ?? Promise.resolve()).then(task, task);
+  const tail = run.catch(() => {});
+  queues.set(key, tail);
+  void tail.then(() => {
+    if (queues.get(key) === tail) queues.delete(key);
+  });
+  return run;
+}
+
+function isJson(raw: string | null): boolean {
+  if (raw == null) return false;
+  try {
+    JSON.parse(raw);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function notify(key: string) {
+  for (const listener of listeners.get(key) ?? []) listener();
+}
+
+async function flush(key: string, batch: Batch) {
+  // Updates from here on start the next batch
+  if (batches.get(key) === batch) batches.delete(key);
+
+  let value: unknown;
+  try {
+    value = await batch.load();
+  } catch (e) {
+    for (const step of batch.steps) step.reject(e);
+    return;
+  }
+
+  const applied: Step[] = [];
+  for (const step of batch.steps) {
+    try {
+      value = step.update(value);
+      applied.push(step);
+    } catch (e) {
+      step.reject(e);
+    }
+  }
+  if (applied.length === 0) return;
+
+  let json: string;
+  try {
+    json = JSON.stringify(value);
+    await AsyncStorage.setItem(key, json);
+  } catch (e) {
+    for (const step of applied) step.reject(e);
+    return;
+  }
+  // The backup keeps the last good save: it is replaced only by a save that reads back as JSON
+  try {
+    if (isJson(await AsyncStorage.getItem(key))) await AsyncStorage.setItem(backupKey(key), json);
+  } catch {
+    // The new save is in place; the older backup stays until the next write
+  }
+  for (const step of applied) step.resolve(value);
+  notify(key);
+}
+
+/**
+ * The JSON saved under `key`, or null when there is none.
+ * Unreadable JSON is copied to `<key>:corrupt` and the backup copy is returned instead (null without one);
+ * the next write of the key replaces the broken save.
+ */
+export async function readJson(key: string): Promise<unknown> {
+  const raw = await AsyncStorage.getItem(key);
+  if (raw == null) return null;
+  try {
+    return JSON.parse(raw) as unknown;
+  } catch {
+    await AsyncStorage.setItem(corruptKey(key), raw);
+  }
+  const backup = await AsyncStorage.getItem(backupKey(key));
+  if (backup == null) return null;
+  try {
+    return JSON.parse(backup) as unknown;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Change the value under `key`: `update` gets what `load` returns (or the value left by the updates before it
+ * in the same batch) and returns the value to save. Resolves with the value as saved, after every update of
+ * the batch. `load` must not write `key` itself (it runs inside the queue of the key).
+ */
+export function updateJson<T>(key: string, load: () => Promise<T>, update: (current: T) => T): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    let batch = batches.get(key);
+    if (!batch) {
+      batch = { load, steps: [] };
+      batches.set(key, batch);
+      const started = batch;
+      void enqueue(key, () => flush(key, started));
+    }
+    batch.steps.push({
+      update: (current) => update(current as T),
+      resolve: (value) => resolve(value as T),
+      reject,
+    });
+  });
+}
+
+/** Save `value` under `key`, in turn with the other writes of the key. */
+export async function writeJson<T>(key: string, value: T): Promise<void> {
+  await updateJson(key, async () => value, () => value);
+}
+
+/** Remove `key` (and its backup), in turn with the other writes of the key. */
+export function removeJson(key: string): Promise<void> {
+  // Updates after this call must not join a batch that runs before the removal
+  batches.delete(key);
+  return enqueue(key, async () => {
+    await AsyncStorage.multiRemove([key, backupKey(key)]);
+    notify(key);
+  });
+}
+
+/** Call `listener` after every write of `key`. Returns the unsubscribe function. */
+export function subscribe(key: string, listener: () => void): () => void {
+  const set = listeners.get(key) ?? new Set();
+  set.add(listener);
+  listeners.set(key, set);
+  return () => {
+    set.delete(listener);
+    if (set.size === 0 && listeners.get(key) === set) listeners.delete(key);
+  };
+}
@@ -0,0 +1,46 @@
+/**
+ * Target count of a play: how many answers the user tries to recall.
+ * - a number: that many (capped at the theme's answer count)
+ * - 'all': every answer of the theme
+ */
+export type TargetCount = 5 | 10 | 20 | 'all';
+
+export const TARGET_OPTIONS: TargetCount[] = [5, 10, 20, 'all'];
+
+/** Used when the theme has no defaultTarget (and has at least this many answers) */
+export const DEFAULT_TARGET = 10 satisfies TargetCount;
+
+export function isTargetCount(x: unknown): x is TargetCount {
+  return x === 5 || x === 10 || x === 20 || x === 'all';
+}
+
+/** Number of answers the play actually asks for. */
+export function resolveTargetCount(target: TargetCount, answerCount: number): number {
+  if (target === 'all') return answerCount;
+  return Math.min(target, answerCount);
+}
+
+/**
+ * Key plays are recorded under, so perfect rates stay comparable per target.
+ * A numeric target that covers the whole theme is the same play as 'all'.
+ */
+export function targetKey(target: TargetCount, answerCount: number): string {
+  if (target === 'all' || target >= answerCount) return 'all';
+  return String(target);
+}
+
+/** Target to start with: the theme's defaultTarget, else DEFAULT_TARGET (or 'all' for small themes). */
+export function defaultTargetFor(theme: { answers: string[]; defaultTarget?: TargetCount }): TargetCount {
+  if (theme.defaultTarget != null) return theme.defaultTarget;
+  return theme.answers.length <= DEFAULT_TARGET ? 'all' : DEFAULT_TARGET;
+}
+
+/** Options worth offering for a theme: numeric targets smaller than the theme, plus 'all'. */
+export function targetOptionsFor(answerCount: number): TargetCount[] {
+  return TARGET_OPTIONS.filter((t) => t === 'all' || t < answerCount);
+}
+
+/** Display label for a target or a record key ('5' / 'all' ...) */
+export function targetLabel(target: TargetCount | string): string {
+  return target === 'all' ? '全部' : `${target}個`;
+}
@@ -0,0 +1,85 @@
+import type { ThemeMeta } from '@/datasets/themes';
+import { normalizeAnswer } from '@/src/lib/normalize';
+import type { PlayStatsV1 } from '@/src/lib/records';
+
+/** Answer-count buckets of the library filter */
+export type SizeFilter = 'all' | 'small' | 'medium' | 'large';
+
+export const SIZE_FILTERS: SizeFilter[] = ['all', 'small', 'medium', 'large'];
+
+/** Play status from the records (normal plays; see PlayStatsV1.playsByTheme) */
+export type PlayStatus = 'unplayed' | 'played' | 'perfected';
+
+export type StatusFilter = 'all' | PlayStatus;
+
+export const STATUS_FILTERS: StatusFilter[] = ['all', 'unplayed', 'played', 'perfected'];
+
+export type LibraryFilters = {
+  query: string;
+  /** null = every category */
+  categoryId: string | null;
+  size: SizeFilter;
+  status: StatusFilter;
+  favoritesOnly: boolean;
+};
+
+const SMALL_MAX = 10;
+const MEDIUM_MAX = 30;
+
+export function sizeFilterLabel(size: SizeFilter): string {
+  if (size === 'small') return `${SMALL_MAX}個まで`;
+  if (size === 'medium') return `${SMALL_MAX + 1}〜${MEDIUM_MAX}個`;
+  if (size === 'large') return `${MEDIUM_MAX + 1}個以上`;
+  return 'すべて';
+}
+
+export function statusFilterLabel(status: StatusFilter): string {
+  if (status === 'unplayed') return '未プレイ';
+  if (status === 'played') return 'プレイ済み';
+  if (status === 'perfected') return '成功あり';
+  return 'すべて';
+}
+
+/** Answers of a list theme, cards of a pairs theme */
+export function themeSize(theme: ThemeMeta): number {
+  const d = theme.dataset;
+  return d.kind === 'pairs' ? d.items.length : d.answers.length;
+}
+
+function sizeMatches(n: number, size: SizeFilter): boolean {
+  if (size === 'small') return n <= SMALL_MAX;
+  if (size === 'medium') return n > SMALL_MAX && n <= MEDIUM_MAX;
+  if (size === 'large') return n > MEDIUM_MAX;
+  return true;
+}
+
+export function playStatus(themeId: string, stats: PlayStatsV1 | null): PlayStatus {
+  if ((stats?.perfectsByTheme[themeId] ?? 0) > 0) return 'perfected';
+  if ((stats?.playsByTheme[themeId] ?? 0) > 0) return 'played';
+  return 'unplayed';
+}
+
+/**
+ * Themes matching every filter, favorites first (then the original THEMES order).
+ * The title search uses normalizeAnswer, so カナ/かな and upper/lower case do not matter.
+ */
+export function filterThemes(
+  themes: ThemeMeta[],
+  filters: LibraryFilters,
+  stats: PlayStatsV1 | null,
+  favorites: string[]
+): ThemeMeta[] {
+  const query = normalizeAnswer(filters.query);
+  const favoriteSet = new Set(favorites);
+
+  const matched = themes.filter((t) => {
+    if (filters.categoryId && t.categoryId !== filters.categoryId) return false;
+    if (filters.favoritesOnly && !favoriteSet.has(t.id)) return false;
+    if (!sizeMatches(themeSize(t), filters.size)) return false;
+    if (filters.status !== 'all' && playStatus(t.id, stats) !== filters.status) return false;
+    if (query && !normalizeAnswer(t.title).includes(query)) return false;
+    return true;
+  });
+
+  return [...matched.filter((t) => favoriteSet.has(t.id)), ...matched.filter((t) => !favoriteSet.has(t.id))];
+}
@@ -0,0 +1,74 @@
+import type { ThemeMeta } from '@/datasets/themes';
+import { rate, type PlayStatsV1 } from '@/src/lib/records';
+
+/**
+ * How 出題 picks the next theme in a category:
+ * - random: uniform
+ * - weak: low success rate first (themes with few plays count as a bit weak too)
+ * - new: never played first, then rarely played
+ */
+export type DrawStrategy = 'random' | 'weak' | 'new';
+
+export const DRAW_STRATEGIES: DrawStrategy[] = ['random', 'weak', 'new'];
+
+export const DEFAULT_DRAW_STRATEGY: DrawStrategy = 'random';
+
+/** The last this many drawn themes are skipped while the pool has other themes */
+export const RECENT_THEMES_TO_AVOID = 3;
+
+export function drawStrategyLabel(strategy: DrawStrategy): string {
+  if (strategy === 'weak') return '苦手優先';
+  if (strategy === 'new') return '未プレイ優先';
+  return 'ランダム';
+}
+
+export type ThemeDrawStats = Pick<PlayStatsV1, 'playsByTheme' | 'perfectsByTheme'>;
+
+/** Plays under this are "not known yet": the success rate of 1-2 plays says little */
+const FEW_PLAYS = 3;
+
+/** Relative chance of a theme being drawn (> 0). */
+export function themeWeight(themeId: string, stats: ThemeDrawStats | null, strategy: DrawStrategy): number {
+  if (strategy === 'random') return 1;
+
+  const plays = stats?.playsByTheme[themeId] ?? 0;
+  const perfects = stats?.perfectsByTheme[themeId] ?? 0;
+
+  if (strategy === 'new') {
+    return plays === 0 ? 10 : 1 / (1 + plays);
+  }
+
+  // weak: 1 (always perfect) .. 5 (never perfect), +1 while there are few plays
+  const failRate = plays === 0 ? 0.5 : 1 - rate(perfects, plays);
+  return 1 + failRate * 4 + (plays < FEW_PLAYS ? 1 : 0);
+}
+
+/**
+ * Weighted pick from `pool`, skipping the themes in `recentIds` (newest first) as long as
+ * something else is left. Returns null for an empty pool.
+ */
+export function pickTheme(
+  pool: ThemeMeta[],
+  options: {
+    stats: ThemeDrawStats | null;
+    strategy: DrawStrategy;
+    recentIds?: string[];
+    random?: () => number;
+  }
+): ThemeMeta | null {
+  if (pool.length === 0) return null;
+  const { stats, strategy, recentIds = [], random = Math.random } = options;
+
+  // Avoid as many recent themes as the pool allows (at least one theme must remain)
+  const avoid = new Set(recentIds.slice(0, Math.min(RECENT_THEMES_TO_AVOID, pool.length - 1)));
+  const candidates = pool.filter((t) => !avoid.has(t.id));
+
+  const weights = candidates.map((t) => themeWeight(t.id, stats, strategy));
+  const total = weights.reduce((a, b) => a + b, 0);
+  let r = random() * total;
+  for (let i = 0; i < candidates.length; i++) {
+    r -= weights[i];
+    if (r < 0) return candidates[i];
+  }
+  return candidates[candidates.length - 1];
+}
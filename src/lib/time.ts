@@ -0,0 +1,13 @@
+/** Milliseconds -> "m:ss" (e.g. 83_400 -> "1:23"). Negative values are shown as 0:00. */
+export function formatDuration(ms: number): string {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${String(seconds).padStart(2, '0')}`;
+}
+
+/** YYYY-MM-DD -> "M/D" (e.g. "2026-10-05" -> "10/5"), for chart labels. */
+export function formatShortDate(key: string): string {
+  const [, m, d] = key.split('-').map(Number);
+  return `${m}/${d}`;
+}